@@ -0,0 +1,723 @@
+import type {
+  Change,
+  HistoryEvent,
+  Position,
+  SelectionState,
+} from "../../interfaces";
+import type { AscendEditor } from "../../main";
+import {
+  adjustPos,
+  changeEnd,
+  copyPosition,
+  detectLineSeparator,
+  positionEqual,
+  positionLess,
+  splitLines,
+} from "../../utils/helpers";
+import { History } from "../history/history";
+import { Line } from "./line";
+import { LineTree } from "./lineTree";
+
+/**
+ * A link from one document to another view of the same text.
+ */
+interface DocLink {
+  doc: Doc;
+  // Whether both documents record their changes in one history
+  sharedHist: boolean;
+  // Line `n` of this document is line `n + offset` of the linked one
+  offset: number;
+}
+
+/**
+ * The document model: the lines of text, their highlighting state, the selection and the undo history.
+ *
+ * A Doc does not need a DOM. It can be edited on its own, or attached to an AscendEditor, which then displays
+ * it. An editor shows one document at a time and can switch between documents with `swapDoc`, each keeping its
+ * own undo history, selection, highlighting and scroll position.
+ */
+export class Doc {
+  // The lines of the document
+  public lines: LineTree;
+  // Undo history, null while changes should not be recorded
+  public history: History | null;
+  // The primary selection range, kept while the document is not displayed
+  public selection: { from: Position; to: Position; inverted?: boolean };
+  // Selection ranges besides the primary one, in document order. Each is a cursor when it is empty.
+  public secondary: SelectionState[] = [];
+  // Line numbers that still have to be highlighted
+  public work: number[];
+  // Name of the parser the document is highlighted with, null until it is first displayed
+  public parser: string | null;
+  // Line break put between lines when the text is read out, detected from the text the document was given
+  public lineSep: string;
+  // Scroll position of the editor when the document was last displayed
+  public scrollTop: number = 0;
+  public scrollLeft: number = 0;
+  // The editor currently displaying the document
+  public editor: AscendEditor | null = null;
+  // Other documents showing the same text, see `linkedDoc`
+  public links: DocLink[] = [];
+  // Set while a change made in a linked document is being applied, so it is not sent back
+  public applyingLinked: boolean = false;
+
+  constructor(text: string = "", parser: string | null = null) {
+    this.lines = new LineTree(splitLines(text).map((line) => new Line(line)));
+    this.history = new History();
+    this.selection = {
+      from: { line: 0, ch: 0 },
+      to: { line: 0, ch: 0 },
+      inverted: false,
+    };
+    this.work = [0];
+    this.parser = parser;
+    this.lineSep = detectLineSeparator(text) || "\n";
+  }
+
+  lineCount() {
+    return this.lines.length;
+  }
+
+  getLine(n: number) {
+    return n >= 0 && n < this.lines.length ? this.lines.get(n).text : undefined;
+  }
+
+  /**
+   * @param lineSep - Line break to join the lines with, defaults to the document's line separator.
+   */
+  getValue(lineSep: string = this.lineSep) {
+    let lines: string[] = [];
+    this.lines.iter(0, this.lines.length, (line) => {
+      lines.push(line.text!);
+    });
+    return lines.join(lineSep);
+  }
+
+  lineSeparator() {
+    return this.lineSep;
+  }
+
+  /**
+   * Changes the line break the text is read out with, converting the line endings of the document. The
+   * lines themselves are stored without line breaks, so the text does not change.
+   * @param sep - "\n", "\r\n" or "\r".
+   */
+  setLineSeparator(sep: string) {
+    if (sep != "\n" && sep != "\r\n" && sep != "\r") {
+      throw new Error("Invalid line separator: " + JSON.stringify(sep));
+    }
+    this.lineSep = sep;
+  }
+
+  /**
+   * Replaces the whole text. Clears the undo history, linked documents get the new text. The line separator
+   * is detected again from the new text.
+   * @param text - The new text.
+   */
+  setValue(text: string) {
+    if (this.editor) {
+      const editor = this.editor;
+      return editor.operation(() => editor.setValue(text))();
+    }
+
+    const last = this.lines.length - 1;
+    const change: Change = {
+      from: { line: 0, ch: 0 },
+      to: { line: last, ch: this.lines.get(last).text!.length },
+      text: splitLines(text),
+      removed: this.textBetween(
+        { line: 0, ch: 0 },
+        { line: last, ch: this.lines.get(last).text!.length }
+      ),
+      origin: "setValue",
+    };
+    const oldHistory = this.history;
+    this.lineSep = detectLineSeparator(text) || this.lineSep;
+
+    this.lines = new LineTree(
+      change.text.map((line) => new Line(line)),
+      this.lines.lineHeight
+    );
+    this.history = new History(this.history?.eventDelay);
+    this.propagateChange(change);
+    // Documents that shared the old history share the new one
+    this.iterLinkedDocs((doc) => {
+      if (oldHistory && doc.history == oldHistory) doc.history = this.history;
+    });
+    this.work = [0];
+    this.setCursor({ line: 0, ch: 0 });
+  }
+
+  /**
+   * Collects the text between two positions, one entry per line.
+   * @param from - Start of the range.
+   * @param to - End of the range.
+   */
+  textBetween(from: Position, to: Position): string[] {
+    if (from.line == to.line) {
+      return [this.lines.get(from.line).text!.slice(from.ch, to.ch)];
+    }
+
+    const text = [this.lines.get(from.line).text!.slice(from.ch)];
+    this.lines.iter(from.line + 1, to.line, (line) => {
+      text.push(line.text!);
+    });
+    text.push(this.lines.get(to.line).text!.slice(0, to.ch));
+    return text;
+  }
+
+  /**
+   * @returns The text between two positions, with lines joined by `lineSep`, which defaults to the
+   * document's line separator.
+   */
+  getRange(from: Position, to: Position, lineSep: string = this.lineSep) {
+    from = this.clipPosition(from);
+    to = this.clipPosition(to);
+    if (positionLess(to, from)) [from, to] = [to, from];
+    return this.textBetween(from, to).join(lineSep);
+  }
+
+  /**
+   * Clips a position so it points into the document.
+   */
+  clipPosition(pos: Position): Position {
+    const line = Math.max(0, Math.min(this.lines.length - 1, pos.line));
+    const ch = Math.max(0, Math.min(this.lines.get(line).text!.length, pos.ch));
+    return { line, ch };
+  }
+
+  /**
+   * Converts an offset in the text to a position. Line breaks count as many characters as the line separator
+   * has, so offsets match the text `getValue` returns.
+   * @param index - Offset from the start of the document.
+   */
+  posFromIndex(index: number): Position {
+    return this.lines.posAtChars(Math.max(0, index), this.lineSep.length);
+  }
+
+  /**
+   * Converts a position to an offset in the text, counting line breaks like `posFromIndex`.
+   * @param pos - The position, clipped to the document.
+   */
+  indexFromPos(pos: Position) {
+    pos = this.clipPosition(pos);
+    return this.lines.charsAtLine(pos.line, this.lineSep.length) + pos.ch;
+  }
+
+  /**
+   * @returns Copies of all selection ranges, primary and secondary, in document order.
+   */
+  listSelections(): SelectionState[] {
+    return this.secondary
+      .concat([this.selection as SelectionState])
+      .map((range) => ({
+        from: copyPosition(range.from),
+        to: copyPosition(range.to),
+        inverted: !!range.inverted,
+      }))
+      .sort((a, b) =>
+        positionLess(a.from, b.from) ? -1 : positionLess(b.from, a.from) ? 1 : 0
+      );
+  }
+
+  /**
+   * @returns The text of each selection range, in document order.
+   * @param lineSep - Line break to join the lines of a range with, defaults to the document's line separator.
+   */
+  getSelections(lineSep: string = this.lineSep) {
+    return this.listSelections().map((range) =>
+      this.textBetween(range.from, range.to).join(lineSep)
+    );
+  }
+
+  /**
+   * Replaces all selection ranges of a document that is not displayed.
+   * @param ranges - The new ranges, overlapping ones are merged.
+   * @param primary - Index of the range that becomes the primary one, defaults to the last.
+   */
+  setSelections(
+    ranges: { from: Position; to?: Position; inverted?: boolean }[],
+    primary: number = ranges.length - 1
+  ) {
+    if (this.editor) {
+      const editor = this.editor;
+      return editor.operation(() => editor.setSelections(ranges, primary))();
+    }
+    if (!ranges.length) return;
+
+    const clipped = ranges.map((range) => {
+      let from = this.clipPosition(range.from);
+      let to = this.clipPosition(range.to ?? range.from);
+      if (positionLess(to, from)) [from, to] = [to, from];
+      return { from, to, inverted: !!range.inverted };
+    });
+    primary = Math.max(0, Math.min(clipped.length - 1, primary));
+    this.selection = clipped[primary];
+    this.secondary = clipped.filter((_, i) => i != primary);
+    this.mergeSelections();
+  }
+
+  /**
+   * Sorts the secondary ranges and merges ranges that overlap, or cursors at the same position. A range
+   * that overlaps the primary one is merged into it.
+   */
+  mergeSelections() {
+    const sel = this.selection;
+    const overlaps = (a: SelectionState | typeof sel, b: SelectionState) =>
+      positionEqual(a.from, b.from) ||
+      (positionLess(a.from, b.to) && positionLess(b.from, a.to));
+
+    const sorted = this.secondary
+      .slice()
+      .sort((a, b) =>
+        positionLess(a.from, b.from) ? -1 : positionLess(b.from, a.from) ? 1 : 0
+      );
+    let merged: SelectionState[] = [];
+
+    for (const range of sorted) {
+      if (overlaps(sel, range)) {
+        if (positionLess(range.from, sel.from)) sel.from = range.from;
+        if (positionLess(sel.to, range.to)) sel.to = range.to;
+        continue;
+      }
+      const last = merged[merged.length - 1];
+      if (last && overlaps(last, range)) {
+        if (positionLess(last.to, range.to)) last.to = range.to;
+      } else {
+        merged.push(range);
+      }
+    }
+    // Growing the primary range may have made it reach ranges that were checked before
+    let absorbed = true;
+    while (absorbed) {
+      absorbed = false;
+      merged = merged.filter((range) => {
+        if (!overlaps(sel, range)) return true;
+        if (positionLess(range.from, sel.from)) sel.from = range.from;
+        if (positionLess(sel.to, range.to)) sel.to = range.to;
+        absorbed = true;
+        return false;
+      });
+    }
+    this.secondary = merged;
+  }
+
+  getCursor(start: boolean = false) {
+    return copyPosition(start ? this.selection.from : this.selection.to);
+  }
+
+  /**
+   * Moves the cursor of a document that is not displayed.
+   */
+  setCursor(pos: Position) {
+    if (this.editor) {
+      const editor = this.editor;
+      return editor.operation(() => editor.setCursor(pos.line, pos.ch))();
+    }
+
+    pos = this.clipPosition(pos);
+    this.selection = { from: pos, to: copyPosition(pos), inverted: false };
+    this.secondary = [];
+  }
+
+  /**
+   * Replaces a range of text. When the document is displayed this goes through the editor, otherwise the
+   * lines are changed directly and the change is recorded in the history.
+   * @param text - The new text.
+   * @param from - Start of the range.
+   * @param to - End of the range, defaults to `from`.
+   * @param origin - What caused the change.
+   */
+  replaceRange(text: string, from: Position, to?: Position, origin?: string) {
+    if (this.editor) {
+      const editor = this.editor;
+      return editor.operation(() =>
+        editor.replaceRange(text, from, to, origin)
+      )();
+    }
+
+    from = this.clipPosition(from);
+    to = to ? this.clipPosition(to) : from;
+    if (positionLess(to, from)) [from, to] = [to, from];
+
+    const change: Change = {
+      from,
+      to,
+      text: splitLines(text),
+      removed: this.textBetween(from, to),
+      origin,
+    };
+    const selBefore = this.snapshotSelection();
+
+    this.updateLines(change.from, change.to, change.text);
+    this.propagateChange(change);
+    const end = changeEnd(change);
+    this.selection = { from: end, to: copyPosition(end), inverted: false };
+
+    this.history?.addChange(
+      change.from,
+      change.to,
+      change.text,
+      change.removed,
+      selBefore,
+      this.snapshotSelection(),
+      origin
+    );
+    return end;
+  }
+
+  /**
+   * Creates a new document that shows the same text as this one. Edits made in either document show up
+   * live in the other.
+   * @param options.from - First line of this document the new one shows, defaults to the first line.
+   * @param options.to - Line after the last line the new one shows, defaults to the end of the document.
+   * @param options.sharedHist - Whether both documents use one undo history. Only possible when the new
+   * document shows the whole text, since the recorded positions have to mean the same in both.
+   */
+  linkedDoc(
+    options: { from?: number; to?: number; sharedHist?: boolean } = {}
+  ) {
+    const from = Math.max(0, options.from ?? 0);
+    const to = Math.min(this.lines.length, options.to ?? this.lines.length);
+    const sharedHist = !!options.sharedHist;
+    if (to <= from) throw new Error("Linked document range is empty");
+    if (sharedHist && (from > 0 || to < this.lines.length)) {
+      throw new Error(
+        "Only a linked document of the whole text can share history"
+      );
+    }
+
+    const text: string[] = [];
+    this.lines.iter(from, to, (line) => {
+      text.push(line.text!);
+    });
+    const doc = new Doc(text.join("\n"), this.parser);
+    doc.lineSep = this.lineSep;
+    doc.lines.setLineHeight(this.lines.lineHeight);
+    if (sharedHist) doc.history = this.history;
+
+    this.links.push({ doc, sharedHist, offset: -from });
+    doc.links.push({ doc: this, sharedHist, offset: from });
+    return doc;
+  }
+
+  /**
+   * Breaks the link between this document and another. A shared history is left with this document, the
+   * other one starts with an empty history.
+   */
+  unlinkDoc(other: Doc) {
+    const link = this.links.find((link) => link.doc == other);
+    if (!link) return;
+    this.links = this.links.filter((l) => l != link);
+    other.links = other.links.filter((l) => l.doc != this);
+    if (link.sharedHist) other.history = new History(this.history?.eventDelay);
+  }
+
+  /**
+   * Calls `f` for every document linked to this one, directly or through other linked documents.
+   */
+  iterLinkedDocs(f: (doc: Doc, sharedHist: boolean) => void) {
+    const visit = (doc: Doc, seen: Set<Doc>) => {
+      for (const link of doc.links) {
+        if (seen.has(link.doc)) continue;
+        seen.add(link.doc);
+        f(link.doc, link.sharedHist);
+        visit(link.doc, seen);
+      }
+    };
+    visit(this, new Set([this]));
+  }
+
+  /**
+   * Sends a change made in this document to the linked documents, translated to their lines.
+   * @param change - The change, in the lines of this document as they were before it.
+   * @param seen - Documents that already have the change.
+   */
+  propagateChange(change: Change, seen: Set<Doc> = new Set([this])) {
+    for (const link of this.links) {
+      if (seen.has(link.doc)) continue;
+      seen.add(link.doc);
+
+      // Documents linked further on only show text of this one, so a change that misses it misses them too
+      const translated = this.translateChange(change, link);
+      if (!translated) continue;
+      link.doc.applyLinkedChange(translated, link.sharedHist);
+      link.doc.propagateChange(translated, seen);
+    }
+  }
+
+  /**
+   * Translates a change to the lines of a linked document. A change that is outside the range of lines the
+   * other document shows only moves that range. A change that crosses the edge of the range is cut at it.
+   * @returns The change as the linked document sees it, or null when it does not touch its text.
+   */
+  private translateChange(change: Change, link: DocLink): Change | null {
+    const other = link.doc;
+    const back = other.links.find((l) => l.doc == this)!;
+    const lenDiff =
+      change.text.length - 1 - (change.to.line - change.from.line);
+    const fromLine = change.from.line + link.offset;
+    const toLine = change.to.line + link.offset;
+    const lastLine = other.lines.length - 1;
+
+    // Entirely above the linked range, which moves down by the lines the change added
+    if (toLine < 0) {
+      link.offset -= lenDiff;
+      back.offset += lenDiff;
+      return null;
+    }
+    // Entirely below the linked range
+    if (fromLine > lastLine) return null;
+
+    let from = { line: fromLine, ch: change.from.ch };
+    let to = { line: toLine, ch: change.to.ch };
+    let text = change.text;
+
+    // Starts above the range, or inserts lines right at its start: the text before the last inserted line
+    // ends up above it
+    if (
+      fromLine < 0 ||
+      (fromLine == 0 && change.from.ch == 0 && change.text.length > 1)
+    ) {
+      const first = change.from.line + change.text.length - 1;
+      link.offset = -first;
+      back.offset = first;
+      from = { line: 0, ch: 0 };
+      text = [text[text.length - 1]];
+    }
+    // Ends below the range: only the first inserted line stays in it
+    if (toLine > lastLine) {
+      to = { line: lastLine, ch: other.lines.get(lastLine).text!.length };
+      text = [text[0]];
+    }
+
+    // Only the range moved
+    if (positionEqual(from, to) && text.length == 1 && !text[0]) return null;
+
+    return {
+      from,
+      to,
+      text,
+      removed: other.textBetween(from, to),
+      origin: change.origin,
+    };
+  }
+
+  /**
+   * Applies a change that was made in a linked document. It is recorded in this document's history unless
+   * the two share one.
+   */
+  private applyLinkedChange(change: Change, sharedHist: boolean) {
+    this.applyingLinked = true;
+    try {
+      if (this.editor) {
+        const editor = this.editor;
+        editor.operation(() => editor.applyLinkedChange(change, sharedHist))();
+        return;
+      }
+
+      const selBefore = this.snapshotSelection();
+      const end = changeEnd(change);
+      this.updateLines(change.from, change.to, change.text);
+      this.selection = {
+        from: adjustPos(this.selection.from, change.from, change.to, end),
+        to: adjustPos(this.selection.to, change.from, change.to, end),
+        inverted: this.selection.inverted,
+      };
+      if (!sharedHist) {
+        this.history?.addChange(
+          change.from,
+          change.to,
+          change.text,
+          change.removed,
+          selBefore,
+          this.snapshotSelection(),
+          change.origin
+        );
+      }
+    } finally {
+      this.applyingLinked = false;
+    }
+  }
+
+  undo() {
+    if (this.editor) {
+      const editor = this.editor;
+      return editor.operation(() => editor.undo())();
+    }
+    const event = this.history?.undoEvent();
+    if (event) this.replayEvent(event, true);
+  }
+
+  redo() {
+    if (this.editor) {
+      const editor = this.editor;
+      return editor.operation(() => editor.redo())();
+    }
+    const event = this.history?.redoEvent();
+    if (event) this.replayEvent(event, false);
+  }
+
+  /**
+   * Applies or reverts a history event on a document that is not displayed.
+   */
+  private replayEvent(event: HistoryEvent, reverse: boolean) {
+    for (const change of replayChanges(event, reverse)) {
+      const removed = this.textBetween(change.from, change.to);
+      this.updateLines(change.from, change.to, change.text);
+      this.propagateChange({
+        ...change,
+        removed,
+        origin: reverse ? "undo" : "redo",
+      });
+    }
+    const sel = reverse ? event.selBefore : event.selAfter;
+    this.selection = {
+      from: copyPosition(sel.from),
+      to: copyPosition(sel.to),
+      inverted: sel.inverted,
+    };
+  }
+
+  snapshotSelection() {
+    return {
+      from: copyPosition(this.selection.from),
+      to: copyPosition(this.selection.to),
+      inverted: !!this.selection.inverted,
+    };
+  }
+
+  /**
+   * Replaces the text between two positions with new lines, and updates the highlighting work queue.
+   *
+   * This only changes the model; the editor takes care of the display and the selection.
+   *
+   * @param from - The starting position of the text to be replaced.
+   * @param to - The ending position of the text to be replaced.
+   * @param newText - An array of strings representing the new text to insert. Each string in the array corresponds to a line.
+   * @returns The difference in line count caused by the change.
+   */
+  updateLines(from: Position, to: Position, newText: string[]) {
+    // Calculate the number of lines being replaced.
+    let nLines = to.line - from.line;
+    let firstLine = this.lines.get(from.line);
+    let lastLine = this.lines.get(to.line);
+    // Replaces text inside a line that stays in the tree, keeping the summed lengths in the tree up to date
+    const replaceIn = (line: Line, from: number, to: number, text: string) => {
+      const oldLength = line.text!.length;
+      line.replace(from, to, text);
+      this.lines.updateLineLength(line, oldLength);
+    };
+
+    // Case 1: The change is within a single line.
+    if (from.line == to.line) {
+      if (newText.length == 1) {
+        // Simple replacement within a single line.
+        replaceIn(firstLine, from.ch, to.ch, newText[0]);
+      } else {
+        // Split current line and insert multiple lines
+        let lastLine = firstLine.split(to.ch, newText[newText.length - 1]);
+        // Prepare arguments for splice.
+        let spliceArgs: Line[] = [];
+
+        // Replace the start of the line.
+        replaceIn(firstLine, from.ch, firstLine.text?.length!, newText[0]);
+
+        // Insert new lines between first and last
+        for (let i = 1; i < newText.length - 1; i++) {
+          spliceArgs.push(new Line(newText[i]));
+        }
+        // Add the split last line
+        spliceArgs.push(lastLine);
+
+        // Update the lines tree
+        this.lines.remove(from.line + 1, nLines);
+        this.lines.insert(from.line + 1, spliceArgs);
+      }
+    }
+    // Case 2: Multiple lines replaced with single line (i.e The change spans multiple lines, but only one new line is inserted.)
+    else if (newText.length == 1) {
+      // Join first line's start with last last line's end
+      replaceIn(
+        firstLine,
+        from.ch,
+        firstLine.text?.length!,
+        newText[0] + lastLine.text?.slice(to.ch)
+      );
+
+      // Remove the lines in between
+      this.lines.remove(from.line + 1, nLines);
+    }
+    // Case 3: Multiple lines replaced with mutliple lines
+    else {
+      let spliceArgs: Line[] = [];
+      // Update the fist and last lines
+      replaceIn(firstLine, from.ch, firstLine.text?.length!, newText[0]);
+      replaceIn(lastLine, 0, to.ch, newText[newText.length - 1]);
+
+      // Insert new lines in between
+      for (let i = 1; i < newText.length - 1; i++) {
+        spliceArgs.push(new Line(newText[i]));
+      }
+
+      this.lines.remove(from.line + 1, nLines - 1);
+      this.lines.insert(from.line + 1, spliceArgs);
+    }
+
+    // Keep the secondary selection ranges on the same text
+    if (this.secondary.length) {
+      const end = changeEnd({ from, text: newText });
+      for (const range of this.secondary) {
+        range.from = adjustPos(range.from, from, to, end);
+        range.to = adjustPos(range.to, from, to, end);
+      }
+    }
+
+    // Update work queue for syntax highlighting
+    let newWork = [];
+    let lenDiff = newText.length - nLines - 1;
+
+    for (let i = 0; i < this.work.length; i++) {
+      let task = this.work[i];
+      if (task < from.line) {
+        newWork.push(task);
+      } else if (task > to.line) {
+        newWork.push(task + lenDiff);
+      }
+    }
+
+    // Add modified line to work queue
+    if (newText.length) newWork.push(from.line);
+    this.work = newWork;
+
+    return lenDiff;
+  }
+}
+
+/**
+ * Lists the changes that apply a history event, or revert it. Reverting applies the inverse of each change,
+ * last change first.
+ * @param event - The history event.
+ * @param reverse - Whether the event is being reverted (undo) or re-applied (redo).
+ */
+export function replayChanges(event: HistoryEvent, reverse: boolean) {
+  const changes = event.changes;
+  const result: Change[] = [];
+
+  for (let i = 0; i < changes.length; i++) {
+    const change = changes[reverse ? changes.length - 1 - i : i];
+    // The inverse replaces the inserted text with the removed text.
+    result.push(
+      reverse
+        ? {
+            from: change.from,
+            to: changeEnd(change),
+            text: change.removed,
+            removed: change.text,
+            origin: change.origin,
+          }
+        : change
+    );
+  }
+  return result;
+}
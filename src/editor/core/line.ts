@@ -10,8 +10,10 @@ import { copyStyles, htmlEscape } from "../../utils/helpers";
  * @param {HTMLElement} parent - The parent object.
  */
 export class Line {
-  // Stores Parent object.
+  // Stores Parent object, the chunk of the line tree holding the line.
   public parent: any;
+  // Height of the line in pixels, kept in sync with the sums in the line tree.
+  public height: number = 1;
   // Stores the text content of the line.
   public text: string | undefined;
   // Stores the state after a state point.
@@ -0,0 +1,486 @@
+import type { Position } from "../../interfaces";
+import { Line } from "./line";
+
+/**
+ * A leaf of the line tree, holding a run of lines.
+ */
+export class LeafChunk {
+  public lines: Line[];
+  // Summed height of the lines
+  public height: number;
+  // Summed length of the lines, counting one character for each line break
+  public chars: number;
+  public parent: BranchChunk | null = null;
+
+  constructor(lines: Line[]) {
+    this.lines = lines;
+    this.height = 0;
+    this.chars = 0;
+    for (const line of lines) {
+      line.parent = this;
+      this.height += line.height;
+      this.chars += line.text!.length + 1;
+    }
+  }
+
+  chunkSize() {
+    return this.lines.length;
+  }
+
+  /**
+   * Removes `n` lines, starting at line `at` of the chunk.
+   */
+  removeInner(at: number, n: number) {
+    for (let i = at, e = at + n; i < e; i++) {
+      const line = this.lines[i];
+      this.height -= line.height;
+      this.chars -= line.text!.length + 1;
+      line.parent = null;
+    }
+    this.lines.splice(at, n);
+  }
+
+  /**
+   * Folds the lines of this chunk into `lines`, used when a branch becomes small enough to be a single leaf.
+   */
+  collapse(lines: Line[]) {
+    for (const line of this.lines) lines.push(line);
+  }
+
+  insertInner(at: number, lines: Line[], height: number, chars: number) {
+    this.height += height;
+    this.chars += chars;
+    // Not a spliced spread, which would pass every line as an argument
+    this.lines = this.lines.slice(0, at).concat(lines, this.lines.slice(at));
+    for (const line of lines) line.parent = this;
+  }
+
+  /**
+   * Calls `f` for `n` lines starting at line `at` of the chunk. Stops when `f` returns true.
+   * @returns True if `f` stopped the iteration.
+   */
+  iterN(at: number, n: number, f: (line: Line) => boolean | void) {
+    for (let e = at + n; at < e; at++) {
+      if (f(this.lines[at])) return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * An inner node of the line tree. Keeps the number of lines and the summed height below it, so lines can be
+ * found by number or by vertical offset in O(log n).
+ */
+export class BranchChunk {
+  public children: (LeafChunk | BranchChunk)[];
+  // Number of lines below this node
+  public size: number;
+  // Summed height of the lines below this node
+  public height: number;
+  // Summed length of the lines below this node, counting one character for each line break
+  public chars: number;
+  public parent: BranchChunk | null = null;
+
+  constructor(children: (LeafChunk | BranchChunk)[]) {
+    this.children = children;
+    this.size = 0;
+    this.height = 0;
+    this.chars = 0;
+    for (const child of children) {
+      this.size += child.chunkSize();
+      this.height += child.height;
+      this.chars += child.chars;
+      child.parent = this;
+    }
+  }
+
+  chunkSize() {
+    return this.size;
+  }
+
+  removeInner(at: number, n: number) {
+    this.size -= n;
+
+    for (let i = 0; i < this.children.length; i++) {
+      const child = this.children[i];
+      const sz = child.chunkSize();
+
+      if (at < sz) {
+        const rm = Math.min(n, sz - at);
+        const oldHeight = child.height;
+        const oldChars = child.chars;
+        child.removeInner(at, rm);
+        this.height -= oldHeight - child.height;
+        this.chars -= oldChars - child.chars;
+
+        if (sz == rm) {
+          this.children.splice(i--, 1);
+          child.parent = null;
+        }
+        if ((n -= rm) == 0) break;
+        at = 0;
+      } else {
+        at -= sz;
+      }
+    }
+
+    // Merge small branches back into a single leaf, so the tree does not keep empty levels around
+    if (
+      this.size < 25 &&
+      (this.children.length > 1 || !(this.children[0] instanceof LeafChunk))
+    ) {
+      const lines: Line[] = [];
+      this.collapse(lines);
+      this.children = [new LeafChunk(lines)];
+      this.children[0].parent = this;
+    }
+  }
+
+  collapse(lines: Line[]) {
+    for (const child of this.children) child.collapse(lines);
+  }
+
+  insertInner(at: number, lines: Line[], height: number, chars: number) {
+    this.size += lines.length;
+    this.height += height;
+    this.chars += chars;
+
+    for (let i = 0; i < this.children.length; i++) {
+      const child = this.children[i];
+      const sz = child.chunkSize();
+
+      if (at <= sz) {
+        child.insertInner(at, lines, height, chars);
+
+        if (child instanceof LeafChunk && child.lines.length > 50) {
+          // Split the leaf into leaves of 25 lines. The part that would be left over stays in the original
+          while (child.lines.length > 50) {
+            const spilled = child.lines.splice(child.lines.length - 25, 25);
+            const leaf = new LeafChunk(spilled);
+            child.height -= leaf.height;
+            child.chars -= leaf.chars;
+            this.children.splice(i + 1, 0, leaf);
+            leaf.parent = this;
+          }
+          this.maybeSpill();
+        }
+        break;
+      }
+      at -= sz;
+    }
+  }
+
+  /**
+   * Splits this node when it has grown too many children, adding a level to the tree when the root splits.
+   */
+  maybeSpill() {
+    if (this.children.length <= 10) return;
+
+    let me: BranchChunk = this;
+    do {
+      const spilled = me.children.splice(me.children.length - 5, 5);
+      const sibling = new BranchChunk(spilled);
+
+      if (!me.parent) {
+        // Splitting the root: move its children into a copy, which becomes the new root's first child
+        const copy = new BranchChunk(me.children);
+        copy.parent = me;
+        me.children = [copy, sibling];
+        me = copy;
+      } else {
+        me.size -= sibling.size;
+        me.height -= sibling.height;
+        me.chars -= sibling.chars;
+        const myIndex = me.parent.children.indexOf(me);
+        me.parent.children.splice(myIndex + 1, 0, sibling);
+      }
+      sibling.parent = me.parent;
+    } while (me.children.length > 10);
+
+    me.parent!.maybeSpill();
+  }
+
+  iterN(at: number, n: number, f: (line: Line) => boolean | void): boolean {
+    for (let i = 0; i < this.children.length; i++) {
+      const child = this.children[i];
+      const sz = child.chunkSize();
+
+      if (at < sz) {
+        const used = Math.min(n, sz - at);
+        if (child.iterN(at, used, f)) return true;
+        if ((n -= used) == 0) break;
+        at = 0;
+      } else {
+        at -= sz;
+      }
+    }
+    return false;
+  }
+}
+
+/**
+ * The lines of a document, stored in a balanced tree of chunks. Finding, inserting and removing lines is
+ * O(log n), so editing near the top of a very large document does not shift every line after it.
+ *
+ * Each line has a height in pixels. The tree keeps the summed heights, so the editor can find the line at a
+ * vertical offset and the offset of a line without walking the lines above it.
+ */
+export class LineTree {
+  public root: BranchChunk;
+  // Height given to new lines until the editor measures them
+  public lineHeight: number = 1;
+
+  constructor(lines: Line[], lineHeight: number = 1) {
+    this.lineHeight = lineHeight;
+    this.root = new BranchChunk([new LeafChunk([])]);
+    this.insert(0, lines);
+  }
+
+  /**
+   * The number of lines.
+   */
+  get length() {
+    return this.root.size;
+  }
+
+  /**
+   * The summed height of all lines.
+   */
+  get height() {
+    return this.root.height;
+  }
+
+  /**
+   * The length of the text, with a single character for each line break.
+   */
+  get chars() {
+    return this.root.chars - 1;
+  }
+
+  /**
+   * @returns The line with the given number.
+   */
+  get(n: number): Line {
+    let chunk: LeafChunk | BranchChunk = this.root;
+
+    while (!(chunk instanceof LeafChunk)) {
+      for (let i = 0; ; i++) {
+        const child: LeafChunk | BranchChunk = chunk.children[i];
+        const sz = child.chunkSize();
+        if (n < sz || i == chunk.children.length - 1) {
+          chunk = child;
+          break;
+        }
+        n -= sz;
+      }
+    }
+    return chunk.lines[n];
+  }
+
+  /**
+   * Finds the number of a line by walking up from its leaf.
+   * @returns The line number, or -1 when the line is not in this tree.
+   */
+  lineNo(line: Line) {
+    let cur = line.parent as LeafChunk | null;
+    if (!cur) return -1;
+
+    let no = cur.lines.indexOf(line);
+    let chunk: LeafChunk | BranchChunk = cur;
+    for (let p = chunk.parent; p; chunk = p, p = p.parent) {
+      for (const child of p.children) {
+        if (child == chunk) break;
+        no += child.chunkSize();
+      }
+    }
+    return chunk == this.root ? no : -1;
+  }
+
+  /**
+   * Inserts lines before line `at`.
+   */
+  insert(at: number, lines: Line[]) {
+    let height = 0;
+    let chars = 0;
+    for (const line of lines) {
+      line.height = this.lineHeight;
+      height += line.height;
+      chars += line.text!.length + 1;
+    }
+    this.root.insertInner(at, lines, height, chars);
+  }
+
+  /**
+   * Removes `n` lines, starting at line `at`.
+   */
+  remove(at: number, n: number) {
+    if (n > 0) this.root.removeInner(at, n);
+  }
+
+  /**
+   * Calls `f` for each line from `from` up to, not including, `to`. Stops when `f` returns true.
+   */
+  iter(from: number, to: number, f: (line: Line) => boolean | void) {
+    if (to > from) this.root.iterN(from, to - from, f);
+  }
+
+  /**
+   * Finds the line at a vertical offset from the top of the document. Offsets past the end give the last line.
+   */
+  lineAtHeight(h: number) {
+    let n = 0;
+    let chunk: LeafChunk | BranchChunk = this.root;
+
+    while (!(chunk instanceof LeafChunk)) {
+      for (let i = 0; ; i++) {
+        const child: LeafChunk | BranchChunk = chunk.children[i];
+        if (h < child.height || i == chunk.children.length - 1) {
+          chunk = child;
+          break;
+        }
+        h -= child.height;
+        n += child.chunkSize();
+      }
+    }
+
+    for (let i = 0; i < chunk.lines.length; i++) {
+      const lh = chunk.lines[i].height;
+      if (h < lh) return n + i;
+      h -= lh;
+    }
+    return Math.max(0, n + chunk.lines.length - 1);
+  }
+
+  /**
+   * @returns The vertical offset of the top of line `n`.
+   */
+  heightAtLine(n: number) {
+    let h = 0;
+    let chunk: LeafChunk | BranchChunk = this.root;
+
+    while (!(chunk instanceof LeafChunk)) {
+      for (let i = 0; ; i++) {
+        const child: LeafChunk | BranchChunk = chunk.children[i];
+        const sz = child.chunkSize();
+        if (n < sz || i == chunk.children.length - 1) {
+          chunk = child;
+          break;
+        }
+        n -= sz;
+        h += child.height;
+      }
+    }
+
+    for (let i = 0; i < n && i < chunk.lines.length; i++) {
+      h += chunk.lines[i].height;
+    }
+    return h;
+  }
+
+  /**
+   * @returns The offset of the start of line `n` in the text.
+   * @param sepSize - Number of characters each line break counts for.
+   */
+  charsAtLine(n: number, sepSize: number = 1) {
+    let chars = 0;
+    let chunk: LeafChunk | BranchChunk = this.root;
+
+    while (!(chunk instanceof LeafChunk)) {
+      for (let i = 0; ; i++) {
+        const child: LeafChunk | BranchChunk = chunk.children[i];
+        const sz = child.chunkSize();
+        if (n < sz || i == chunk.children.length - 1) {
+          chunk = child;
+          break;
+        }
+        n -= sz;
+        chars += child.chars + sz * (sepSize - 1);
+      }
+    }
+
+    for (let i = 0; i < n && i < chunk.lines.length; i++) {
+      chars += chunk.lines[i].text!.length + sepSize;
+    }
+    return chars;
+  }
+
+  /**
+   * Finds the line and character at an offset in the text. Offsets past the end give the end of the last line,
+   * offsets inside a line break give the end of its line.
+   * @param sepSize - Number of characters each line break counts for.
+   */
+  posAtChars(index: number, sepSize: number = 1): Position {
+    let n = 0;
+    let chunk: LeafChunk | BranchChunk = this.root;
+
+    while (!(chunk instanceof LeafChunk)) {
+      for (let i = 0; ; i++) {
+        const child: LeafChunk | BranchChunk = chunk.children[i];
+        const chars = child.chars + child.chunkSize() * (sepSize - 1);
+        if (index < chars || i == chunk.children.length - 1) {
+          chunk = child;
+          break;
+        }
+        index -= chars;
+        n += child.chunkSize();
+      }
+    }
+
+    for (let i = 0; i < chunk.lines.length; i++) {
+      const len = chunk.lines[i].text!.length;
+      if (index <= len || i == chunk.lines.length - 1) {
+        return { line: n + i, ch: Math.min(index, len) };
+      }
+      if (index < len + sepSize) return { line: n + i, ch: len };
+      index -= len + sepSize;
+    }
+    return { line: n, ch: 0 };
+  }
+
+  /**
+   * Updates the summed lengths after the text of a line changed in place.
+   * @param line - The changed line.
+   * @param oldLength - The length of its text before the change.
+   */
+  updateLineLength(line: Line, oldLength: number) {
+    const diff = line.text!.length - oldLength;
+    if (!diff) return;
+    for (let n: LeafChunk | BranchChunk | null = line.parent; n; n = n.parent) {
+      n.chars += diff;
+    }
+  }
+
+  /**
+   * Sets the height of one line, updating the sums on the path to the root.
+   */
+  updateLineHeight(line: Line, height: number) {
+    const diff = height - line.height;
+    if (!diff) return;
+    line.height = height;
+    for (let n: LeafChunk | BranchChunk | null = line.parent; n; n = n.parent) {
+      n.height += diff;
+    }
+  }
+
+  /**
+   * Gives every line a new height. Used when the editor measures a different line height, for example after
+   * a font change.
+   */
+  setLineHeight(height: number) {
+    this.lineHeight = height;
+
+    const reset = (chunk: LeafChunk | BranchChunk) => {
+      if (chunk instanceof LeafChunk) {
+        for (const line of chunk.lines) line.height = height;
+        chunk.height = chunk.lines.length * height;
+      } else {
+        chunk.height = 0;
+        for (const child of chunk.children) {
+          reset(child);
+          chunk.height += child.height;
+        }
+      }
+    };
+    reset(this.root);
+  }
+}
@@ -1,85 +1,514 @@
-import type { Change } from "../../interfaces";
+import type {
+  Change,
+  HistoryBranch,
+  HistoryEvent,
+  HistoryNode,
+  Position,
+  SerializedHistory,
+  SelectionEvent,
+  SelectionState,
+} from "../../interfaces";
+import { changeEnd, positionEqual } from "../../utils/helpers";
 
 /**
  * History class for managing undo/redo in the editor.
- * Tracks changes made to text content and maintains timeline of modifications.
+ *
+ * Changes are kept in an undo tree: undoing moves up towards the root, redoing moves down along the branch that
+ * was visited last, and making a change after an undo starts a new branch instead of discarding the old one.
  */
 export class History {
   // Timestamp of last recorded change
   public time: number;
-  // Stack of completed changes that can be undone
-  public done: Change[];
-  // Stack of undone changes that can be redone
-  public undone: Change[];
-  // Time threshold in ms to consider changes as part of the same operation
-  private static readonly COALESCE_THRESHOLD = 400;
-
-  constructor() {
+  // Time in ms within which consecutive changes of the same origin are merged into one event
+  public eventDelay: number;
+  // State of the document when the history was created
+  public root: HistoryNode;
+  // State the document is currently in
+  public current: HistoryNode;
+  // All nodes of the tree, by id
+  public nodes: Map<number, HistoryNode>;
+  // Id of the node the document was in when it was last marked clean
+  public cleanGeneration: number | null;
+  // Stack of cursor movements made since the last change
+  public selDone: SelectionEvent[];
+  // Stack of undone cursor movements
+  public selUndone: SelectionEvent[];
+  // Timestamp of last recorded selection event
+  private selTime: number;
+  // Id given to the next node
+  private nextId: number;
+  // Origin and operation of the last recorded change
+  private lastOrigin: string | undefined;
+  private lastOp: number | undefined;
+  // Depth of open undo groups, and the node collecting their changes
+  private groupDepth: number;
+  private groupNode: HistoryNode | null;
+
+  constructor(eventDelay: number = 400) {
     this.time = 0;
-    this.done = [];
-    this.undone = [];
+    this.eventDelay = eventDelay;
+    this.groupDepth = 0;
+    this.groupNode = null;
+    this.selTime = 0;
+    this.nextId = 0;
+    this.nodes = new Map();
+    this.root = this.current = this.createNode(null, null, +new Date());
+    this.cleanGeneration = this.root.id;
+    this.selDone = [];
+    this.selUndone = [];
   }
 
   /**
    * Adds a new change to the history.
-   * @param start - Start position of the change in text.
-   * @param added - Number of characters added by the change.
-   * @param old - Array containing the old text that was replaced.
+   *
+   * The change is merged into the current event when any of the following holds:
+   * 1. An undo group is open and the event was created inside it. Inside a group nothing else is merged, so
+   *    the first change of a group always starts a new event.
+   * 2. The change was made by the same editor operation as the previous one.
+   * 3. It has the same "+"-prefixed origin (such as "+input") as the previous change, continues where that
+   *    one ended (typing forward or deleting backwards) and happened within `eventDelay` ms of it.
+   * Events that already have redo branches below them are never extended.
+   *
+   * @param from - Start of the replaced range, before the change.
+   * @param to - End of the replaced range, before the change.
+   * @param text - Lines inserted by the change.
+   * @param removed - Lines removed by the change.
+   * @param selBefore - The selection before the change was made.
+   * @param selAfter - The selection after the change was made.
+   * @param origin - What caused the change.
+   * @param op - Id of the editor operation the change was made in.
+   */
+  addChange(
+    from: Position,
+    to: Position,
+    text: string[],
+    removed: string[],
+    selBefore: SelectionState,
+    selAfter: SelectionState,
+    origin?: string,
+    op?: number
+  ) {
+    // Cursor movements before this change are covered by its selBefore
+    this.selDone.length = 0;
+    this.selUndone.length = 0;
+
+    let time = +new Date();
+    let last = this.current.event;
+    let change: Change = { from, to, text, removed, origin };
+
+    let merge =
+      last != null &&
+      !this.current.children.length &&
+      (this.groupDepth > 0
+        ? this.groupNode == this.current
+        : (op != null && op === this.lastOp) ||
+          (origin != null &&
+            origin.charAt(0) == "+" &&
+            origin === this.lastOrigin &&
+            time - this.time <= this.eventDelay &&
+            this.adjacent(last.changes[last.changes.length - 1], change)));
+
+    if (merge) {
+      last!.changes.push(change);
+      last!.selAfter = selAfter;
+      this.current.time = time;
+    } else {
+      let node = this.createNode(
+        this.current,
+        { changes: [change], selBefore, selAfter },
+        time
+      );
+      this.current.children.push(node);
+      this.current.redoChild = node;
+      this.current = node;
+      if (this.groupDepth > 0) this.groupNode = node;
+    }
+
+    // Update timestamp, origin and operation of last change
+    this.time = time;
+    this.lastOrigin = origin;
+    this.lastOp = op;
+  }
+
+  /**
+   * Opens an undo group. Every change made until the matching `endGroup` becomes a single event.
+   */
+  startGroup() {
+    if (this.groupDepth++ == 0) {
+      this.groupNode = null;
+      // Changes made before the group must not take in the group's first change
+      this.closeEvent();
+    }
+  }
+
+  /**
+   * Closes an undo group. Once the outermost group is closed, the next change starts a new event.
+   */
+  endGroup() {
+    if (this.groupDepth == 0) return;
+    if (--this.groupDepth == 0) {
+      this.groupNode = null;
+      this.closeEvent();
+    }
+  }
+
+  /**
+   * Makes sure that the next change starts a new event.
+   */
+  closeEvent() {
+    this.time = 0;
+    this.lastOrigin = undefined;
+    this.lastOp = undefined;
+  }
+
+  /**
+   * Records a selection change that did not modify the text. Movements made in quick succession (such as a
+   * mouse drag) are merged into one event.
+   * @param before - The selection before the movement.
+   * @param after - The selection after the movement.
    */
-  addChange(start: number, added: number, old: string[]) {
-    // Clear redoable changes when a new change is made
-    this.undone.length = 0;
+  addSelection(before: SelectionState, after: SelectionState) {
+    this.selUndone.length = 0;
 
     let time = +new Date();
-    let last: { start: number; added: number; old: string[] } =
-      this.done[this.done.length - 1];
-
-    // Determine if this should be a new change entry or merged with previous
-    // Creates new entry if:
-    // 1. More than 400ms since last change
-    // 2. No previous changes exist
-    // 3. Changes are not adjacent in the text
-    if (
-      time - this.time > History.COALESCE_THRESHOLD ||
-      !last ||
-      last.start > start + added ||
-      last.start + last.added < start - last.added + last.old.length
-    ) {
-      this.done.push({
-        start: start,
-        added: added,
-        old: old,
+    let last = this.selDone[this.selDone.length - 1];
+
+    if (last && time - this.selTime <= this.eventDelay) {
+      last.after = after;
+    } else {
+      this.selDone.push({ before, after });
+    }
+
+    this.selTime = time;
+  }
+
+  /**
+   * Returns an id for the current state. Closes the current event, so that the next change starts a new
+   * state instead of being merged into this one.
+   */
+  changeGeneration() {
+    this.closeEvent();
+    return this.current.id;
+  }
+
+  /**
+   * Marks the current state as clean, for example after the document was saved.
+   */
+  markClean() {
+    this.cleanGeneration = this.changeGeneration();
+  }
+
+  /**
+   * Checks whether the document is in a given state.
+   * @param generation - A value returned by `changeGeneration`, defaults to the state last marked clean.
+   */
+  isClean(generation?: number) {
+    return this.current.id === (generation ?? this.cleanGeneration);
+  }
+
+  /**
+   * Moves the current state to its parent.
+   * @returns The event that has to be reverted, or null when already at the root.
+   */
+  undoEvent(): HistoryEvent | null {
+    let node = this.current;
+    if (!node.parent) return null;
+
+    node.parent.redoChild = node;
+    this.current = node.parent;
+    this.resetTransient();
+    return node.event;
+  }
+
+  /**
+   * Moves the current state to one of its children.
+   * @param child - The child to move to, defaults to the branch that was visited last.
+   * @returns The event that has to be applied, or null when there is nothing to redo.
+   */
+  redoEvent(child?: HistoryNode): HistoryEvent | null {
+    let node = child || this.current.redoChild;
+    if (!node || node.parent != this.current) return null;
+
+    this.current.redoChild = node;
+    this.current = node;
+    this.resetTransient();
+    return node.event;
+  }
+
+  /**
+   * Computes how to get from the current state to another node of the tree.
+   * @param id - Id of the target node.
+   * @returns The number of undo steps up to the common ancestor and the nodes to redo from there, or null if
+   * there is no node with the given id.
+   */
+  route(id: number): { undo: number; redo: HistoryNode[] } | null {
+    let target = this.nodes.get(id);
+    if (!target) return null;
+
+    // Mark the ancestors of the current state, then walk up from the target until one of them is reached.
+    let ancestors = new Set<HistoryNode>();
+    for (let n: HistoryNode | null = this.current; n; n = n.parent) {
+      ancestors.add(n);
+    }
+
+    let redo: HistoryNode[] = [];
+    let common: HistoryNode = target;
+    while (!ancestors.has(common)) {
+      redo.unshift(common);
+      common = common.parent!;
+    }
+
+    let undo = 0;
+    for (let n = this.current; n != common; n = n.parent!) undo++;
+
+    return { undo, redo };
+  }
+
+  /**
+   * Finds the latest state that was reached at or before a given time.
+   * @param time - Timestamp in milliseconds.
+   * @returns The matching node, or the root when every change is newer.
+   */
+  nodeAtTime(time: number): HistoryNode {
+    let found = this.root;
+    for (let node of this.nodes.values()) {
+      if (
+        node.time <= time &&
+        (node.time > found.time ||
+          (node.time == found.time && node.id > found.id))
+      ) {
+        found = node;
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Lists the tip of every branch in the tree.
+   */
+  branches(): HistoryBranch[] {
+    // The branch redo would follow from the current state
+    let onPath = new Set<HistoryNode>();
+    for (let n: HistoryNode | null = this.current; n; n = n.redoChild) {
+      onPath.add(n);
+    }
+
+    let branches: HistoryBranch[] = [];
+    for (let node of this.nodes.values()) {
+      if (node.children.length) continue;
+      branches.push({
+        id: node.id,
+        time: node.time,
+        depth: this.depth(node),
+        current: onPath.has(node),
       });
     }
-    // Merge with previous change if they're close enough in time/position
-    else {
-      let oldOff = 0;
+    return branches;
+  }
 
-      // Handle case where new change is before previous change
-      if (start < last.start) {
-        // Prepend old content to previous change
-        for (let i = last.start - start - 1; i >= 0; --i) {
-          last.old.unshift(old[i]);
-        }
-        last.added += last.start - start;
-        last.start = start;
+  /**
+   * Drops the oldest events once the current branch holds more than `depth` of them. The oldest remaining
+   * state becomes the new root, and branches that split off before it are discarded.
+   * @param depth - Maximum number of events to keep on the current branch.
+   */
+  prune(depth: number) {
+    let excess = this.depth(this.current) - depth;
+    if (excess <= 0) return;
+
+    // Find the node that becomes the new root
+    let path: HistoryNode[] = [];
+    for (let n: HistoryNode | null = this.current; n; n = n.parent) {
+      path.unshift(n);
+    }
+    let newRoot = path[excess];
+
+    // Forget every node that is not below the new root
+    let keep = new Set<HistoryNode>();
+    let stack = [newRoot];
+    while (stack.length) {
+      let node = stack.pop()!;
+      keep.add(node);
+      stack.push(...node.children);
+    }
+    for (let node of this.nodes.values()) {
+      if (!keep.has(node)) this.nodes.delete(node.id);
+    }
+
+    newRoot.parent = null;
+    newRoot.event = null;
+    this.root = newRoot;
+  }
+
+  /**
+   * Counts the events between the root and a node.
+   */
+  depth(node: HistoryNode) {
+    let depth = 0;
+    for (let n = node; n.parent; n = n.parent) depth++;
+    return depth;
+  }
+
+  /**
+   * Converts the undo tree into plain JSON data. Cursor movements are not included.
+   */
+  serialize(): Pick<SerializedHistory, "nodes" | "current" | "clean"> {
+    let nodes: SerializedHistory["nodes"] = [];
+    for (let node of this.nodes.values()) {
+      nodes.push({
+        id: node.id,
+        parent: node.parent ? node.parent.id : null,
+        redoChild: node.redoChild ? node.redoChild.id : null,
+        event: node.event ? JSON.parse(JSON.stringify(node.event)) : null,
+        time: node.time,
+      });
+    }
+    return { nodes, current: this.current.id, clean: this.cleanGeneration };
+  }
+
+  /**
+   * Rebuilds an undo tree from data produced by `serialize`.
+   * @param data - The serialized tree.
+   * @throws Error if the data does not describe a valid tree.
+   */
+  static deserialize(
+    data: Pick<SerializedHistory, "nodes" | "current" | "clean">
+  ) {
+    if (!data || !Array.isArray(data.nodes)) {
+      throw new Error("Invalid history: missing nodes");
+    }
+
+    let history = new History();
+    history.nodes.clear();
+
+    for (let item of data.nodes) {
+      if (typeof item != "object" || !item) {
+        throw new Error("Invalid history: a node is not an object");
+      }
+      if (typeof item.id != "number" || history.nodes.has(item.id)) {
+        throw new Error(`Invalid history: bad node id '${item.id}'`);
       }
-      // Handle case where new change is after previous change
-      else {
-        oldOff = start - last.start;
-        added += oldOff;
+      if (item.event && !History.validEvent(item.event)) {
+        throw new Error(`Invalid history: malformed event in node ${item.id}`);
       }
+      history.nodes.set(item.id, {
+        id: item.id,
+        parent: null,
+        children: [],
+        redoChild: null,
+        event: item.event,
+        time: item.time,
+      });
+      history.nextId = Math.max(history.nextId, item.id + 1);
+    }
 
-      // Append remaining old content
-      for (let i = last.added; i < old.length; i++) {
-        last.old.push(old[i]);
+    // Link the nodes once they all exist
+    let roots: HistoryNode[] = [];
+    for (let item of data.nodes) {
+      let node = history.nodes.get(item.id)!;
+      if (item.parent == null) {
+        roots.push(node);
+        continue;
       }
+      let parent = history.nodes.get(item.parent);
+      if (!parent || !node.event) {
+        throw new Error(`Invalid history: node ${item.id} is detached`);
+      }
+      node.parent = parent;
+      parent.children.push(node);
+    }
+    for (let item of data.nodes) {
+      if (item.redoChild == null) continue;
+      let child = history.nodes.get(item.redoChild);
+      if (!child || child.parent != history.nodes.get(item.id)) {
+        throw new Error(`Invalid history: bad redo branch in node ${item.id}`);
+      }
+      history.nodes.get(item.id)!.redoChild = child;
+    }
 
-      // Update added count if necessary
-      if (last.added < added) last.added = added;
+    let current = history.nodes.get(data.current);
+    if (roots.length != 1 || !current) {
+      throw new Error("Invalid history: the tree has no single root");
     }
+    history.root = roots[0];
 
-    // Update timestamp of last change
-    this.time = time;
+    // Every node must lead up to the root, parents that form a cycle never get there
+    for (let node of history.nodes.values()) {
+      let steps = 0;
+      for (let n: HistoryNode | null = node; n != history.root; n = n.parent) {
+        if (!n || ++steps > history.nodes.size) {
+          throw new Error(
+            `Invalid history: node ${node.id} is not in the tree`
+          );
+        }
+      }
+    }
+    history.current = current;
+    history.cleanGeneration = data.clean ?? null;
+    return history;
+  }
+
+  /**
+   * Checks the shape of an event read from serialized data.
+   */
+  private static validEvent(event: HistoryEvent) {
+    let validPos = (pos: Position) =>
+      typeof pos == "object" &&
+      !!pos &&
+      typeof pos.line == "number" &&
+      typeof pos.ch == "number";
+    let validSel = (sel: SelectionState) =>
+      typeof sel == "object" && !!sel && validPos(sel.from) && validPos(sel.to);
+
+    return (
+      typeof event == "object" &&
+      Array.isArray(event.changes) &&
+      event.changes.every(
+        (change) =>
+          typeof change == "object" &&
+          !!change &&
+          validPos(change.from) &&
+          validPos(change.to) &&
+          Array.isArray(change.text) &&
+          Array.isArray(change.removed)
+      ) &&
+      validSel(event.selBefore) &&
+      validSel(event.selAfter)
+    );
+  }
+
+  private createNode(
+    parent: HistoryNode | null,
+    event: HistoryEvent | null,
+    time: number
+  ): HistoryNode {
+    let node: HistoryNode = {
+      id: this.nextId++,
+      parent,
+      children: [],
+      redoChild: null,
+      event,
+      time,
+    };
+    this.nodes.set(node.id, node);
+    return node;
+  }
+
+  /**
+   * Forgets state that only applies to the position the history was in before an undo or redo.
+   */
+  private resetTransient() {
+    this.closeEvent();
+    this.selDone.length = 0;
+    this.selUndone.length = 0;
+  }
+
+  /**
+   * Checks whether a change touches the end of the text inserted by a previous change.
+   * @param prev - The previously recorded change.
+   * @param change - The new change.
+   */
+  private adjacent(prev: Change, change: Change) {
+    let end = changeEnd(prev);
+    return positionEqual(change.from, end) || positionEqual(change.to, end);
   }
 }
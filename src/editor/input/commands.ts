@@ -0,0 +1,132 @@
+import type { Command, Position } from "../../interfaces";
+import type { AscendEditor } from "../../main";
+import { copyPosition, positionEqual } from "../../utils/helpers";
+import { Pass } from "./keymap";
+
+/**
+ * Wraps a command that edits the document so that it declines to run in a read-only editor.
+ */
+function editing(f: Command): Command {
+  return (editor: AscendEditor) => (editor.options.readOnly ? Pass : f(editor));
+}
+
+/**
+ * Moves the cursor end of the selection. While shift selecting, such as after an Emacs mark was set, the
+ * selection is extended instead of collapsed.
+ * @param f - Computes the new position from the current one.
+ */
+function moveHead(editor: AscendEditor, f: (pos: Position) => Position) {
+  const sel = editor.selection;
+  const pos = editor.clipPosition(
+    f(copyPosition(sel.inverted ? sel.from : sel.to))
+  );
+  editor.setCursor(pos.line, pos.ch);
+}
+
+function lineLength(editor: AscendEditor, line: number) {
+  return editor.lines.get(line).text!.length;
+}
+
+/**
+ * Moves one character to the left (dir -1) or right (dir 1), going over line breaks.
+ */
+function moveChar(editor: AscendEditor, pos: Position, dir: number): Position {
+  if (dir < 0 && pos.ch == 0) {
+    return pos.line
+      ? { line: pos.line - 1, ch: lineLength(editor, pos.line - 1) }
+      : pos;
+  }
+  if (dir > 0 && pos.ch == lineLength(editor, pos.line)) {
+    return pos.line < editor.lines.length - 1
+      ? { line: pos.line + 1, ch: 0 }
+      : pos;
+  }
+  return { line: pos.line, ch: pos.ch + dir };
+}
+
+/**
+ * Moves to the start of the previous word (dir -1) or the end of the next word (dir 1), going over line breaks.
+ */
+function moveWord(editor: AscendEditor, pos: Position, dir: number): Position {
+  let { line, ch } = pos;
+  let seenWord = false;
+
+  for (;;) {
+    const text = editor.lines.get(line).text!;
+    if (dir < 0 ? ch == 0 : ch == text.length) {
+      // Line breaks end words
+      if (seenWord || line == (dir < 0 ? 0 : editor.lines.length - 1)) break;
+      line += dir;
+      ch = dir < 0 ? lineLength(editor, line) : 0;
+      continue;
+    }
+
+    const word = editor.isWordChar(text.charAt(dir < 0 ? ch - 1 : ch));
+    if (seenWord && !word) break;
+    if (word) seenWord = true;
+    ch += dir;
+  }
+  return { line, ch };
+}
+
+/**
+ * Deletes the selection, or the character before (dir -1) or after (dir 1) the cursor when it is empty.
+ */
+function deleteChar(editor: AscendEditor, dir: number) {
+  const { from, to } = editor.selection;
+  if (!positionEqual(from, to)) {
+    editor.replaceSelection("", "start", "+delete");
+  } else if (dir < 0) {
+    editor.replaceRange("", moveChar(editor, from, -1), to, "+delete");
+  } else {
+    editor.replaceRange("", from, moveChar(editor, to, 1), "+delete");
+  }
+}
+
+/**
+ * The built-in commands, by name. Keymaps bind keys to these names, and `execCommand` runs them. Plugins add
+ * their own commands to this object, which is exposed as `AscendEditor.commands`.
+ */
+export const commands: { [name: string]: Command } = {
+  selectAll: (editor) => editor.selectAll(),
+  goDocStart: (editor) => editor.scrollEnd(true),
+  goDocEnd: (editor) => editor.scrollEnd(false),
+  goCharLeft: (editor) => moveHead(editor, (pos) => moveChar(editor, pos, -1)),
+  goCharRight: (editor) => moveHead(editor, (pos) => moveChar(editor, pos, 1)),
+  goWordLeft: (editor) => moveHead(editor, (pos) => moveWord(editor, pos, -1)),
+  goWordRight: (editor) => moveHead(editor, (pos) => moveWord(editor, pos, 1)),
+  goLineUp: (editor) =>
+    moveHead(editor, (pos) => ({ line: pos.line - 1, ch: pos.ch })),
+  goLineDown: (editor) =>
+    moveHead(editor, (pos) => ({ line: pos.line + 1, ch: pos.ch })),
+  goLineStart: (editor) =>
+    moveHead(editor, (pos) => ({ line: pos.line, ch: 0 })),
+  goLineEnd: (editor) =>
+    moveHead(editor, (pos) => ({
+      line: pos.line,
+      ch: lineLength(editor, pos.line),
+    })),
+  goPageUp: (editor) => editor.scrollPage(false),
+  goPageDown: (editor) => editor.scrollPage(true),
+  undo: editing((editor) => editor.undo()),
+  redo: editing((editor) => editor.redo()),
+  undoSelection: editing((editor) => editor.undoSelection()),
+  redoSelection: editing((editor) => editor.redoSelection()),
+  delCharBefore: editing((editor) => deleteChar(editor, -1)),
+  delCharAfter: editing((editor) => deleteChar(editor, 1)),
+  newlineAndIndent: editing((editor) => editor.insertNewLine()),
+  defaultTab: editing((editor) => editor.handleTab()),
+  // Only takes the key when there is something to clear
+  clearSecondarySelections: (editor) => {
+    if (!editor.doc.secondary.length) return Pass;
+    editor.clearSecondarySelections();
+  },
+  startMacroRecording: (editor) => editor.startMacroRecording(),
+  stopMacroRecording: (editor) => editor.stopMacroRecording(),
+  // Declines when there is no macro yet, or while one is recorded, which would make the macro play itself
+  replayMacro: (editor) => (editor.replayMacro() ? undefined : Pass),
+  blockSelectLeft: (editor) => editor.extendBlockSelection("ArrowLeft"),
+  blockSelectRight: (editor) => editor.extendBlockSelection("ArrowRight"),
+  blockSelectUp: (editor) => editor.extendBlockSelection("ArrowUp"),
+  blockSelectDown: (editor) => editor.extendBlockSelection("ArrowDown"),
+};
@@ -0,0 +1,226 @@
+import type { KeyBinding, KeyMap } from "../../interfaces";
+import type { AscendEditor } from "../../main";
+
+/**
+ * Returned by a command or key handler that decided not to handle the key, so that the lookup continues with the
+ * next keymap and, failing that, the key gets its native behaviour.
+ */
+export const Pass = { toString: () => "AscendEditor.Pass" };
+
+// Keys whose `KeyboardEvent.key` is renamed in key names
+const specialKeys: { [key: string]: string } = {
+  " ": "Space",
+  Escape: "Esc",
+  ArrowLeft: "Left",
+  ArrowRight: "Right",
+  ArrowUp: "Up",
+  ArrowDown: "Down",
+  Del: "Delete",
+};
+
+// Modifiers in the order they appear in normalized key names
+const modifierOrder = ["Cmd", "Ctrl", "Alt", "Shift"];
+
+// Keymap properties that are not key names
+const keyMapProperties = ["fallthrough", "call", "attach", "detach"];
+
+/**
+ * Named keymaps. The `keyMap` option refers to these by name, and keymaps can fall through to each other by name.
+ * Plugins register their own keymaps here, with normalized key names (see `normalizeKeyMap`).
+ */
+export const keyMaps: { [name: string]: KeyMap } = {};
+
+keyMaps.basic = {
+  Enter: "newlineAndIndent",
+  Tab: "defaultTab",
+  PageUp: "goPageUp",
+  PageDown: "goPageDown",
+  Esc: "clearSecondarySelections",
+};
+
+keyMaps.default = {
+  "Ctrl-A": "selectAll",
+  "Ctrl-Home": "goDocStart",
+  "Ctrl-End": "goDocEnd",
+  "Ctrl-Z": "undo",
+  "Ctrl-Shift-Z": "redo",
+  "Ctrl-Y": "redo",
+  "Ctrl-U": "undoSelection",
+  "Alt-Shift-Left": "blockSelectLeft",
+  "Alt-Shift-Right": "blockSelectRight",
+  "Alt-Shift-Up": "blockSelectUp",
+  "Alt-Shift-Down": "blockSelectDown",
+  fallthrough: "basic",
+};
+
+/**
+ * Commands that do what the browser does for keys no keymap binds, so that keyboard macros can replay them.
+ * Shift with any of the movement keys extends the selection.
+ */
+export const nativeKeyCommands: { [name: string]: string } = {
+  Left: "goCharLeft",
+  Right: "goCharRight",
+  Up: "goLineUp",
+  Down: "goLineDown",
+  Home: "goLineStart",
+  End: "goLineEnd",
+  "Ctrl-Left": "goWordLeft",
+  "Ctrl-Right": "goWordRight",
+  Backspace: "delCharBefore",
+  Delete: "delCharAfter",
+};
+
+/**
+ * Turns a key name written by hand, like "shift-ctrl-k", into the normalized form that `keyName` produces:
+ * modifiers in the order Cmd, Ctrl, Alt, Shift and single characters in upper case, e.g. "Ctrl-Shift-K".
+ * @param name - Key name, modifiers and the key separated by "-".
+ */
+export function normalizeKeyName(name: string) {
+  const parts = name.split(/-(?!$)/);
+  let key = parts[parts.length - 1];
+  const modifiers: { [mod: string]: boolean } = {};
+
+  for (let i = 0; i < parts.length - 1; i++) {
+    const mod = parts[i].toLowerCase();
+    if (mod == "shift" || mod == "s") modifiers.Shift = true;
+    else if (mod == "cmd" || mod == "meta" || mod == "m") modifiers.Cmd = true;
+    else if (mod == "ctrl" || mod == "control" || mod == "c")
+      modifiers.Ctrl = true;
+    else if (mod == "alt" || mod == "a") modifiers.Alt = true;
+    else throw new Error("Unrecognized modifier name: " + parts[i]);
+  }
+
+  key = specialKeys[key] || key;
+  if (key.length == 1) key = key.toUpperCase();
+
+  let result = "";
+  for (const mod of modifierOrder) if (modifiers[mod]) result += mod + "-";
+  return result + key;
+}
+
+/**
+ * Returns a copy of a keymap written by hand with all its key names normalized. Bindings for key sequences, like
+ * "Ctrl-K Ctrl-C", also bind every prefix of the sequence to "...", which marks the prefix as waiting for more
+ * keys. The `fallthrough`, `call`, `attach` and `detach` properties are kept as they are.
+ */
+export function normalizeKeyMap(map: KeyMap): KeyMap {
+  const copy: KeyMap = {};
+  for (const name in map) {
+    if (!map.hasOwnProperty(name)) continue;
+    if (keyMapProperties.indexOf(name) > -1) {
+      copy[name] = map[name];
+      continue;
+    }
+
+    const keys = name
+      .split(" ")
+      .filter((key) => key)
+      .map(normalizeKeyName);
+    for (let i = 1; i < keys.length; i++) {
+      const prefix = keys.slice(0, i).join(" ");
+      const bound = copy[prefix];
+      if (bound !== undefined && bound != "...") {
+        throw new Error(
+          "Key sequence " + name + " extends bound key " + prefix
+        );
+      }
+      copy[prefix] = "...";
+    }
+
+    const full = keys.join(" ");
+    if (copy[full] == "..." && map[name] != "...") {
+      throw new Error("Key " + full + " is also the start of a key sequence");
+    }
+    copy[full] = map[name];
+  }
+  return copy;
+}
+
+/**
+ * Computes the name of the key pressed in a keydown event, e.g. "Ctrl-Shift-K" or "Alt-Enter".
+ * @returns Null for presses of a modifier key on its own.
+ */
+export function keyName(event: KeyboardEvent): string | null {
+  let key = event.key;
+  if (
+    key == "Shift" ||
+    key == "Control" ||
+    key == "Alt" ||
+    key == "Meta" ||
+    key == "AltGraph" ||
+    key == "Unidentified"
+  ) {
+    return null;
+  }
+
+  // Option on macOS turns letters and digits into other characters, like "ƒ" for Option-F, so those are named
+  // after the physical key
+  const code = /^(?:Key([A-Z])|Digit(\d))$/.exec(event.code || "");
+  if (event.altKey && code) key = code[1] || code[2];
+
+  key = specialKeys[key] || key;
+  if (key.length == 1) key = key.toUpperCase();
+
+  let name = "";
+  if (event.metaKey) name += "Cmd-";
+  if (event.ctrlKey) name += "Ctrl-";
+  if (event.altKey) name += "Alt-";
+  if (event.shiftKey) name += "Shift-";
+  return name + key;
+}
+
+// Normalized copies of the keymap objects given directly to the editor, e.g. as `extraKeys`
+const normalizedMaps = new WeakMap<KeyMap, KeyMap>();
+
+/**
+ * Resolves a keymap given by name or as an object. Key names in keymap objects may be written in any form that
+ * `normalizeKeyName` accepts.
+ */
+export function getKeyMap(map: string | KeyMap): KeyMap {
+  if (typeof map != "string") {
+    let normalized = normalizedMaps.get(map);
+    if (!normalized)
+      normalizedMaps.set(map, (normalized = normalizeKeyMap(map)));
+    return normalized;
+  }
+  const found = keyMaps[map];
+  if (!found) throw new Error("Unknown keymap: " + map);
+  return found;
+}
+
+/**
+ * Looks up a key in a keymap and the keymaps it falls through to, calling `handle` on the first binding found.
+ * A binding of `false` stops the lookup without handling the key.
+ * @param name - Normalized key name, or several separated by spaces for a key sequence.
+ * @param map - The keymap to start at.
+ * @param handle - Runs a binding, returning true when it handled the key.
+ * @param editor - The editor the key was pressed in, passed to keymaps that compute their bindings.
+ * @returns "handled" when a binding handled the key, "multi" when the key starts a longer key sequence,
+ * "nothing" when the lookup was stopped, or undefined when no keymap bound the key.
+ */
+export function lookupKey(
+  name: string,
+  map: string | KeyMap,
+  handle: (binding: KeyBinding) => boolean,
+  editor?: AscendEditor
+): "handled" | "multi" | "nothing" | undefined {
+  const keymap = getKeyMap(map);
+  const found =
+    keymap.call && editor ? keymap.call(name, editor) : keymap[name];
+
+  if (found === false) return "nothing";
+  if (found == "...") return "multi";
+  if (found !== undefined && handle(found as KeyBinding)) return "handled";
+
+  const fallthrough = keymap.fallthrough;
+  if (!fallthrough) return undefined;
+  if (!Array.isArray(fallthrough)) {
+    return lookupKey(name, fallthrough, handle, editor);
+  }
+
+  for (const next of fallthrough) {
+    const result = lookupKey(name, next, handle, editor);
+    if (result) return result;
+  }
+  return undefined;
+}
@@ -1,6 +1,6 @@
 import type { Position, SearchPosition } from "../../interfaces";
 import type { AscendEditor } from "../../main";
-import type { Line } from "../core/line";
+import type { LineTree } from "../core/lineTree";
 
 /**
  * Search cursor implementation for text search functionality in the editor.
@@ -10,7 +10,6 @@ export class SearchCursor {
   public atOccurence: boolean;
   public pos: SearchPosition;
   private editor: AscendEditor;
-  private lines: Line[] = [];
   public matches: (
     reverse: boolean,
     pos: Position
@@ -44,6 +43,13 @@ export class SearchCursor {
     this.initializeSearchStrategy(query, caseFold);
   }
 
+  /**
+   * The lines of the editor's current document.
+   */
+  private get lines(): LineTree {
+    return this.editor.lines;
+  }
+
   /**
    * Sets up the appropriate search strategy based on query type
    */
@@ -80,24 +86,27 @@ export class SearchCursor {
     query: RegExp,
     pos: Position
   ): SearchPosition | undefined {
-    let line = this.lines[pos.line].text?.slice(0, pos.ch);
+    let line = this.lines.get(pos.line).text?.slice(0, pos.ch);
 
     // Attempt to find an initial match for the regex in the extracted line segment.
     let match = line?.match(query);
     // Keeps track of the starting character index of the last found match.
     let start = 0;
 
+    // Offset of the remaining line segment in the original line.
+    let offset = 0;
+
     while (match) {
       // Get the index of the current match within the current line segment.
-      const index = line?.indexOf(match[0])!;
+      const index = match.index!;
 
-      // Add the index of the current match to `start`. This accumulates the offset from the beginning of
-      // the original line.
-      start += index;
+      // Add the offset of the segment to the index of the match, giving its position in the original line.
+      start = offset + index;
 
-      // Slice the `line` to start after the current match. This prepares the line for the next iteration to
-      // find the subsequent matches.
+      // Slice the `line` to start after the start of the current match. This prepares the line for the next
+      // iteration to find the subsequent matches.
       line = line?.slice(index + 1);
+      offset = start + 1;
 
       // Attempt to find a new match in the remaining part of the line.
       const newMatch = line?.match(query);
@@ -129,9 +138,9 @@ export class SearchCursor {
     query: RegExp,
     pos: Position
   ): SearchPosition | undefined {
-    const line = this.lines[pos.line].text?.slice(pos.ch)!;
+    const line = this.lines.get(pos.line).text?.slice(pos.ch)!;
     const match = line?.match(query);
-    const start = match && pos.ch + line.indexOf(match[0]);
+    const start = match && pos.ch + match.index!;
 
     return match
       ? {
@@ -163,7 +172,7 @@ export class SearchCursor {
         reverse: boolean,
         pos: Position
       ): SearchPosition | undefined => {
-        const line = fold(this.lines[pos.line].text!);
+        const line = fold(this.lines.get(pos.line).text!);
         const len = query.length;
         let match: number;
 
@@ -198,7 +207,7 @@ export class SearchCursor {
         let ln = pos.line;
         let idx = reverse ? target.length - 1 : 0;
         let match = target[idx];
-        let line = fold(this.lines[pos.line].text!);
+        let line = fold(this.lines.get(pos.line).text!);
 
         // Find the offset in the first/last line.
         // For reverse search, we're looking for the end of the `match` in the current line.
@@ -226,7 +235,7 @@ export class SearchCursor {
 
           // Move to the next/previous line
           ln += reverse ? -1 : 1;
-          line = fold(this.lines[ln].text!);
+          line = fold(this.lines.get(ln).text!);
           match = target[reverse ? idx-- : idx++]; // Get the corresponding part of the query.
 
           // For "middle" lines of a multi-line query (not the first or last),
@@ -317,7 +326,7 @@ export class SearchCursor {
         pos.line--;
         // When moving to the previous line in a reverse search, start character position should be at the end
         // of that previous line to ensure full line scanning
-        pos.ch = this.lines[pos.line].text?.length!;
+        pos.ch = this.lines.get(pos.line).text?.length!;
       } else {
         if (pos.line === this.lines.length - 1) {
           return savePosAndFail(this.lines.length);
@@ -335,14 +344,14 @@ export class SearchCursor {
    * Selects the current search match in the editor.
    */
   public select() {
-    return this.editor.operation(() => {
+    this.editor.operation(() => {
       if (this.atOccurence) {
         this.editor.setSelection(
           this.editor.clipPosition(this.pos.from),
           this.editor.clipPosition(this.pos.to)
         );
       }
-    });
+    })();
   }
 
   /**
@@ -350,7 +359,7 @@ export class SearchCursor {
    * @param text - The string content to replace the current match with.
    */
   public replace(text: string) {
-    return this.editor.operation(() => {
+    this.editor.operation(() => {
       if (this.atOccurence) {
         let fragments = this.pos.match;
         if (fragments) {
@@ -367,7 +376,7 @@ export class SearchCursor {
         // The occurence no longer exists ot has been changed.
         this.atOccurence = false;
       }
-    });
+    })();
   }
 
   /**
@@ -1,3 +1,5 @@
+import type { AscendEditor } from "../main";
+
 export interface Offset {
   left: number;
   top: number;
@@ -15,10 +17,102 @@ export interface Line {
   selDiv: any;
 }
 
+/**
+ * A single, character-precise edit. `from`/`to` describe the replaced range in the document as it was before the
+ * change, `text` the lines that were inserted and `removed` the lines that were taken out. `origin` tells what
+ * caused the change, e.g. "+input", "paste", "drop", "indent", "undo", "setValue" or a custom string.
+ */
 export interface Change {
-  start: number;
-  added: number;
-  old: string;
+  from: Position;
+  to: Position;
+  text: string[];
+  removed: string[];
+  origin?: string;
+}
+
+/**
+ * A change that is about to be applied, passed to `beforeChange` handlers. Handlers can cancel it or rewrite
+ * its range and text.
+ */
+export interface BeforeChange {
+  from: Position;
+  to: Position;
+  text: string[];
+  origin?: string;
+  canceled: boolean;
+  cancel(): void;
+  update(from?: Position, to?: Position, text?: string | string[]): void;
+}
+
+/**
+ * A snapshot of the editor selection.
+ */
+export interface SelectionState {
+  from: Position;
+  to: Position;
+  inverted: boolean;
+}
+
+/**
+ * A group of changes that is undone/redone as a single step, along with the selection before and after it.
+ */
+export interface HistoryEvent {
+  changes: Change[];
+  selBefore: SelectionState;
+  selAfter: SelectionState;
+}
+
+/**
+ * A state in the undo tree. Every node except the root holds the event that leads to it from its parent.
+ */
+export interface HistoryNode {
+  id: number;
+  parent: HistoryNode | null;
+  children: HistoryNode[];
+  // Child that redo moves to, the branch that was visited last
+  redoChild: HistoryNode | null;
+  event: HistoryEvent | null;
+  // Time of the last change recorded in the node
+  time: number;
+}
+
+/**
+ * Describes the tip of one branch of the undo tree.
+ */
+export interface HistoryBranch {
+  id: number;
+  time: number;
+  // Number of events between the root and the tip
+  depth: number;
+  // Whether the current state lies on this branch
+  current: boolean;
+}
+
+/**
+ * JSON form of the undo tree, as returned by `getHistory`.
+ */
+export interface SerializedHistory {
+  nodes: {
+    id: number;
+    parent: number | null;
+    redoChild: number | null;
+    event: HistoryEvent | null;
+    time: number;
+  }[];
+  current: number;
+  // Node that was marked clean, if any
+  clean: number | null;
+  // Line count and checksum of the document text at the current state
+  lines: number;
+  checksum: number;
+}
+
+/**
+ * A cursor movement or selection change that happened without editing the text.
+ */
+export interface SelectionEvent {
+  before: SelectionState;
+  after: SelectionState;
 }
 
 export interface SearchPosition {
@@ -26,3 +120,42 @@ export interface SearchPosition {
   to: Position;
   match?: RegExpMatchArray;
 }
+
+/**
+ * A named editor action, run by key bindings and `execCommand`. Returning `Pass` declines the action so that
+ * the key is handled by the next keymap.
+ */
+export type Command = (editor: AscendEditor) => any;
+
+/**
+ * What a key is bound to: the name of a command in `AscendEditor.commands`, or a function.
+ */
+export type KeyBinding = string | Command;
+
+/**
+ * One step of a keyboard macro: a command run by name, a key run through the keymaps because it is bound to a
+ * function, or typed text. `shift` marks movement commands that extend the selection, as with the Shift key.
+ */
+export type MacroStep =
+  { command: string; shift?: boolean } | { key: string } | { text: string };
+
+/**
+ * Maps key names like "Ctrl-Shift-K" to bindings. A binding of `false` leaves the key to the browser. Keys that
+ * are not bound are looked up in the keymap(s) named by `fallthrough`.
+ *
+ * Keymaps that keep state, like Vim's, can instead compute bindings with `call`, and set the editor up and
+ * tear it down again in `attach` and `detach` when the `keyMap` option switches to and away from them.
+ */
+export interface KeyMap {
+  [key: string]:
+    | KeyBinding
+    | false
+    | KeyMap
+    | (string | KeyMap)[]
+    | ((...args: any[]) => any)
+    | undefined;
+  fallthrough?: string | KeyMap | (string | KeyMap)[];
+  call?: (key: string, editor: AscendEditor) => KeyBinding | false | undefined;
+  attach?: (editor: AscendEditor, prev: KeyMap | null) => void;
+  detach?: (editor: AscendEditor, next: KeyMap) => void;
+}
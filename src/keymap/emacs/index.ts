@@ -0,0 +1,402 @@
+import type { Command, KeyBinding, KeyMap, Position } from "../../interfaces";
+import type { AscendEditor } from "../../main";
+import { commands } from "../../editor/input/commands";
+import { normalizeKeyMap, Pass } from "../../editor/input/keymap";
+import { SearchCursor } from "../../editor/search/searchCursor";
+import { copyPosition, positionEqual } from "../../utils/helpers";
+import "./index.css";
+
+/**
+ * An incremental search in progress.
+ */
+interface Isearch {
+  query: string;
+  reverse: boolean;
+  // Where the search started, to go back to when it is canceled
+  origin: Position;
+  // The match found last, or the origin while there is none
+  from: Position;
+  to: Position;
+  failing: boolean;
+}
+
+/**
+ * Per-editor state of the Emacs commands.
+ */
+class EmacsState {
+  // Where the cursor was after the last kill, to append consecutive kills to the same kill ring entry
+  lastKill: { pos: Position; generation: number } | null = null;
+  // The text inserted by the last yank, for yank-pop to replace
+  lastYank: {
+    from: Position;
+    to: Position;
+    generation: number;
+    index: number;
+  } | null = null;
+  search: Isearch | null = null;
+  // The query of the last search, which an empty search repeats
+  lastQuery: string | null = null;
+  // Shows the incremental search, created when the first one starts
+  prompt: HTMLElement | null = null;
+}
+
+// The kill ring is shared by all editors, like the system clipboard. The last entry was killed last.
+const killRing: string[] = [];
+const killRingMax = 60;
+
+const states = new WeakMap<AscendEditor, EmacsState>();
+
+function getState(editor: AscendEditor) {
+  let state = states.get(editor);
+  if (!state) states.set(editor, (state = new EmacsState()));
+  return state;
+}
+
+function cursor(editor: AscendEditor) {
+  const sel = editor.selection;
+  return copyPosition(sel.inverted ? sel.from : sel.to);
+}
+
+function lineText(editor: AscendEditor, line: number) {
+  return editor.lines.get(line).text!;
+}
+
+/**
+ * Wraps a command that edits the document so that it declines to run in a read-only editor.
+ */
+function editing(f: Command): Command {
+  return (editor: AscendEditor) => (editor.options.readOnly ? Pass : f(editor));
+}
+
+/**
+ * Deactivates the mark and collapses the selection to the cursor.
+ */
+function clearMark(editor: AscendEditor) {
+  const pos = cursor(editor);
+  editor.shiftSelecting = null;
+  editor.setCursor(pos.line, pos.ch);
+}
+
+function pushKill(text: string) {
+  killRing.push(text);
+  if (killRing.length > killRingMax) killRing.shift();
+}
+
+/**
+ * Adds killed text to the kill ring. Text killed right after another kill, with the cursor still where that kill
+ * left it, is added to the same entry.
+ */
+function addKill(editor: AscendEditor, text: string) {
+  const state = getState(editor);
+  const last = state.lastKill;
+  if (
+    last &&
+    killRing.length &&
+    last.generation == editor.changeGeneration() &&
+    positionEqual(last.pos, cursor(editor))
+  ) {
+    killRing[killRing.length - 1] += text;
+  } else {
+    pushKill(text);
+  }
+}
+
+/**
+ * Deletes a range and adds its text to the kill ring.
+ */
+function kill(editor: AscendEditor, from: Position, to: Position) {
+  addKill(editor, editor.doc.getRange(from, to, "\n"));
+  editor.shiftSelecting = null;
+  editor.replaceRange("", from, to, "emacs");
+  getState(editor).lastKill = {
+    pos: cursor(editor),
+    generation: editor.changeGeneration(),
+  };
+}
+
+/**
+ * Returns the region between the mark and the cursor, which is the selection, or null when it is empty.
+ */
+function region(editor: AscendEditor) {
+  const { from, to } = editor.selection;
+  return positionEqual(from, to)
+    ? null
+    : { from: copyPosition(from), to: copyPosition(to) };
+}
+
+/**
+ * Inserts a kill ring entry at the cursor, remembering where it went for `yankPop`.
+ */
+function insertKill(
+  editor: AscendEditor,
+  index: number,
+  from: Position,
+  to: Position
+) {
+  editor.shiftSelecting = null;
+  const end = editor.replaceRange(killRing[index], from, to, "emacs")!;
+  editor.setCursor(end.line, end.ch);
+  getState(editor).lastYank = {
+    from: copyPosition(from),
+    to: copyPosition(end),
+    generation: editor.changeGeneration(),
+    index,
+  };
+}
+
+function showPrompt(editor: AscendEditor, state: EmacsState) {
+  const search = state.search;
+  if (!search) {
+    if (state.prompt) state.prompt.style.display = "none";
+    return;
+  }
+
+  if (!state.prompt) {
+    state.prompt = editor.div.appendChild(document.createElement("div"));
+    state.prompt.className = "ascend-editor-emacs-prompt";
+  }
+  state.prompt.style.display = "";
+  state.prompt.textContent =
+    (search.failing ? "Failing " : "") +
+    (search.reverse ? "I-search backward: " : "I-search: ") +
+    search.query;
+}
+
+/**
+ * Looks for the search query, starting at `pos`, and selects the match. Without a match, the last one found
+ * stays selected and the search is marked as failing.
+ */
+function findMatch(editor: AscendEditor, search: Isearch, pos: Position) {
+  if (!search.query) {
+    search.from = search.to = search.origin;
+    search.failing = false;
+  } else {
+    const found = new SearchCursor(search.query, copyPosition(pos), editor);
+    search.failing = !(search.reverse
+      ? found.findPrevious()
+      : found.findNext());
+    if (!search.failing) {
+      search.from = copyPosition(found.pos.from);
+      search.to = copyPosition(found.pos.to);
+    }
+  }
+
+  editor.shiftSelecting = null;
+  if (search.reverse) editor.setSelection(search.to, search.from);
+  else editor.setSelection(search.from, search.to);
+}
+
+/**
+ * Starts an incremental search, or goes to the next match when one is running. An empty search repeats the
+ * last query, and a failing search starts over at the other end of the document.
+ */
+function isearch(editor: AscendEditor, reverse: boolean) {
+  const state = getState(editor);
+  const search = state.search;
+
+  if (!search) {
+    const origin = cursor(editor);
+    state.search = {
+      query: "",
+      reverse,
+      origin,
+      from: origin,
+      to: origin,
+      failing: false,
+    };
+    editor.shiftSelecting = null;
+  } else if (!search.query && state.lastQuery) {
+    search.reverse = reverse;
+    search.query = state.lastQuery;
+    findMatch(editor, search, search.origin);
+  } else if (search.reverse != reverse) {
+    // Turning around finds the match the cursor is on again, from its other end
+    search.reverse = reverse;
+    findMatch(editor, search, reverse ? search.to : search.from);
+  } else if (search.failing) {
+    const last = editor.lines.length - 1;
+    findMatch(
+      editor,
+      search,
+      reverse
+        ? { line: last, ch: lineText(editor, last).length }
+        : { line: 0, ch: 0 }
+    );
+  } else {
+    findMatch(editor, search, reverse ? search.from : search.to);
+  }
+  showPrompt(editor, state);
+}
+
+/**
+ * Ends the incremental search, leaving the cursor at the match, or at the origin when it is canceled.
+ */
+function endSearch(editor: AscendEditor, state: EmacsState, cancel = false) {
+  const search = state.search!;
+  state.search = null;
+  if (search.query) state.lastQuery = search.query;
+
+  const pos = cancel ? search.origin : search.reverse ? search.from : search.to;
+  editor.shiftSelecting = null;
+  editor.setCursor(pos.line, pos.ch);
+  showPrompt(editor, state);
+}
+
+/**
+ * Turns a key typed during an incremental search into the character it adds to the query.
+ * @returns Null for keys that don't type a character.
+ */
+function searchChar(name: string): string | null {
+  if (name.length == 1) return name.toLowerCase();
+  const shifted = /^Shift-(.)$/.exec(name);
+  if (shifted) return shifted[1];
+  return name == "Space" || name == "Shift-Space" ? " " : null;
+}
+
+/**
+ * Finds the handler for a key typed during an incremental search.
+ * @returns Undefined for keys that end the search and then run as usual.
+ */
+function searchKey(
+  editor: AscendEditor,
+  state: EmacsState,
+  key: string
+): Command | undefined {
+  const search = state.search!;
+
+  if (key == "Ctrl-S" || key == "Ctrl-R") {
+    return () => isearch(editor, key == "Ctrl-R");
+  }
+  if (key == "Enter" || key == "Esc") return () => endSearch(editor, state);
+  if (key == "Ctrl-G") return () => endSearch(editor, state, true);
+  if (key == "Backspace") {
+    return () => {
+      search.query = search.query.slice(0, -1);
+      findMatch(editor, search, search.origin);
+      showPrompt(editor, state);
+    };
+  }
+
+  const ch = searchChar(key);
+  if (ch == null) return undefined;
+  return () => {
+    search.query += ch;
+    // A longer query can still match where the cursor is
+    findMatch(editor, search, search.reverse ? search.to : search.from);
+    showPrompt(editor, state);
+  };
+}
+
+Object.assign(commands, {
+  // Kills up to the end of the line, or the line break when only whitespace is left and there is one
+  killLine: editing((editor) => {
+    const from = cursor(editor);
+    const text = lineText(editor, from.line);
+    const to =
+      /\S/.test(text.slice(from.ch)) || from.line == editor.lines.length - 1
+        ? { line: from.line, ch: text.length }
+        : { line: from.line + 1, ch: 0 };
+    if (!positionEqual(from, to)) kill(editor, from, to);
+  }),
+  killRegion: editing((editor) => {
+    const range = region(editor);
+    if (range) kill(editor, range.from, range.to);
+  }),
+  // Copies the region to the kill ring
+  killRingSave: (editor) => {
+    const range = region(editor);
+    if (!range) return;
+    pushKill(editor.doc.getRange(range.from, range.to, "\n"));
+    clearMark(editor);
+  },
+  yank: editing((editor) => {
+    if (!killRing.length) return;
+    const pos = cursor(editor);
+    insertKill(editor, killRing.length - 1, pos, pos);
+  }),
+  // Replaces the text just yanked with the entry before it in the kill ring
+  yankPop: editing((editor) => {
+    const last = getState(editor).lastYank;
+    if (
+      !last ||
+      last.generation != editor.changeGeneration() ||
+      !positionEqual(last.to, cursor(editor))
+    ) {
+      return;
+    }
+    const index = (last.index || killRing.length) - 1;
+    insertKill(editor, index, last.from, last.to);
+  }),
+  // Sets the mark at the cursor. Moving the cursor then selects the region between them.
+  setMark: (editor) => {
+    clearMark(editor);
+    editor.shiftSelecting = cursor(editor);
+  },
+  keyboardQuit: (editor) => clearMark(editor),
+  isearchForward: (editor) => isearch(editor, false),
+  isearchBackward: (editor) => isearch(editor, true),
+} as { [name: string]: Command });
+
+// The fixed bindings. `emacsKeyMap` computes its bindings so that it can take all keys during a search.
+const bindings = normalizeKeyMap({
+  "Ctrl-F": "goCharRight",
+  "Ctrl-B": "goCharLeft",
+  "Ctrl-N": "goLineDown",
+  "Ctrl-P": "goLineUp",
+  "Ctrl-A": "goLineStart",
+  "Ctrl-E": "goLineEnd",
+  "Alt-F": "goWordRight",
+  "Alt-B": "goWordLeft",
+  "Ctrl-K": "killLine",
+  "Ctrl-W": "killRegion",
+  "Alt-W": "killRingSave",
+  "Ctrl-Y": "yank",
+  "Alt-Y": "yankPop",
+  "Ctrl-Space": "setMark",
+  "Ctrl-G": "keyboardQuit",
+  "Ctrl-X U": "undo",
+  "Ctrl-X Shift-(": "startMacroRecording",
+  "Ctrl-X Shift-)": "stopMacroRecording",
+  "Ctrl-X E": "replayMacro",
+  "Ctrl-S": "isearchForward",
+  "Ctrl-R": "isearchBackward",
+});
+
+/**
+ * The Emacs keymap. Keys it doesn't bind fall through to the default keymap.
+ */
+export const emacsKeyMap: KeyMap = {
+  call(key: string, editor: AscendEditor): KeyBinding | undefined {
+    const state = states.get(editor);
+    const binding = bindings[key] as KeyBinding | undefined;
+    if (!state?.search) return binding;
+
+    const handler = searchKey(editor, state, key);
+    if (handler) return handler;
+    // The start of a key sequence waits for the rest, which then ends the search
+    if (binding == "...") return binding;
+    // Other keys end the search and then do what they usually do
+    return () => {
+      endSearch(editor, state);
+      if (binding === undefined) return Pass;
+      return typeof binding == "string"
+        ? editor.execCommand(binding)
+        : binding(editor);
+    };
+  },
+
+  attach(editor: AscendEditor) {
+    // The mark starts out inactive
+    editor.shiftSelecting = null;
+  },
+
+  detach(editor: AscendEditor) {
+    const state = states.get(editor);
+    if (!state) return;
+    if (state.search) endSearch(editor, state);
+    state.prompt?.parentNode?.removeChild(state.prompt);
+    states.delete(editor);
+  },
+
+  fallthrough: "default",
+};
@@ -0,0 +1,1811 @@
+import type { Command, KeyMap, Position } from "../../interfaces";
+import type { AscendEditor } from "../../main";
+import type { History } from "../../editor/history/history";
+import { SearchCursor } from "../../editor/search/searchCursor";
+import {
+  copyPosition,
+  countColumn,
+  matching,
+  positionEqual,
+  positionLess,
+} from "../../utils/helpers";
+import "./index.css";
+
+type VimMode = "normal" | "insert" | "visual" | "visual-line" | "visual-block";
+
+/**
+ * The contents of a register. Linewise text holds whole lines, without the final line break, and is put on
+ * lines of its own.
+ */
+interface Register {
+  text: string;
+  linewise: boolean;
+}
+
+/**
+ * A parsed normal or visual mode command, like `"a3dw`.
+ */
+interface VimCommand {
+  register: string | null;
+  count: number | null;
+  // An operator, a motion or an action
+  key: string;
+  // The motion or text object an operator works on, e.g. "w" or "iw", and its count
+  motion: string | null;
+  motionCount: number | null;
+  // The character typed after f, t, F, T or r
+  arg: string | null;
+}
+
+/**
+ * The text an operator works on. Linewise ranges cover the lines from `from.line` to `to.line` entirely.
+ */
+interface VimRange {
+  from: Position;
+  to: Position;
+  linewise: boolean;
+}
+
+interface Motion {
+  // Finds where the motion leads from `pos`, or null when it can't go anywhere
+  run(
+    editor: AscendEditor,
+    pos: Position,
+    count: number | null,
+    arg: string | null,
+    state: VimState
+  ): Position | null;
+  linewise?: boolean;
+  // Whether an operator also takes the character the motion ends on
+  inclusive?: boolean;
+  // Whether the motion keeps the column that vertical movement aims for
+  keepGoal?: boolean;
+}
+
+/**
+ * Per-editor state of the Vim keymap.
+ */
+class VimState {
+  mode: VimMode = "normal";
+  // Keys of the command being typed
+  keys: string[] = [];
+  // Ends of the visual selection, the head being where the cursor is
+  anchor: Position = { line: 0, ch: 0 };
+  head: Position = { line: 0, ch: 0 };
+  // The selections set for visual mode, to notice when the mouse changes them
+  visualSelection: string = "";
+  // Column that j and k aim for, Infinity after $
+  goal: number | null = null;
+  lastFind: { key: string; char: string } | null = null;
+  lastSearch: { query: string; reverse: boolean } | null = null;
+  // The search being typed after / or ?
+  prompt: { text: string; reverse: boolean } | null = null;
+  // The last change, repeated by ".", with the text typed in insert mode after it
+  lastChange: { command: VimCommand; text: string | null } | null = null;
+  // A change that entered insert mode and is recorded once insert mode ends
+  pendingChange: VimCommand | null = null;
+  replaying: boolean = false;
+  insertStart: Position | null = null;
+  // The history an undo group is open on for the current insert, so it undoes in one step with its command.
+  // The group is closed on that history even when the editor has swapped documents since.
+  insertGroup: History | null = null;
+  status: HTMLElement;
+  onCursorActivity: () => void;
+
+  constructor(status: HTMLElement, onCursorActivity: () => void) {
+    this.status = status;
+    this.onCursorActivity = onCursorActivity;
+  }
+}
+
+const states = new WeakMap<AscendEditor, VimState>();
+
+// Registers are shared by all editors, so text can be yanked in one and put in another
+const registers: { [name: string]: Register } = {};
+
+const modeLabels: { [mode in VimMode]: string } = {
+  normal: "-- NORMAL --",
+  insert: "-- INSERT --",
+  visual: "-- VISUAL --",
+  "visual-line": "-- VISUAL LINE --",
+  "visual-block": "-- VISUAL BLOCK --",
+};
+
+const operators = "dcy<>";
+
+// Commands that are short for an operator with a motion
+const operatorAliases: { [key: string]: [string, string] } = {
+  x: ["d", "l"],
+  X: ["d", "h"],
+  Delete: ["d", "l"],
+  D: ["d", "$"],
+  C: ["c", "$"],
+  s: ["c", "l"],
+  S: ["c", "c"],
+  Y: ["y", "y"],
+};
+
+// Commands that are short for an operator in visual mode
+const visualAliases: { [key: string]: string } = {
+  x: "d",
+  Delete: "d",
+  s: "c",
+  X: "d",
+  D: "d",
+  S: "c",
+  C: "c",
+  Y: "y",
+};
+
+// Keys that act like a motion key outside of character arguments
+const keyAliases: { [key: string]: string } = {
+  Left: "h",
+  Backspace: "h",
+  Right: "l",
+  " ": "l",
+  Up: "k",
+  Down: "j",
+  Home: "0",
+  End: "$",
+  Enter: "+",
+};
+
+const actions = "i a I A o O p P u Ctrl-R J r ~ . v V Ctrl-V / ? * #".split(
+  " "
+);
+
+// Changes that "." can repeat
+const repeatable = "dc<>iaIAoOpPJr~";
+
+/**
+ * Turns a key name from the keymap into the key Vim sees: the typed character, or a name like "Esc",
+ * "Enter" or "Ctrl-R".
+ * @returns Null for keys that Vim doesn't use.
+ */
+function vimKey(name: string): string | null {
+  if (name.length == 1) return name.toLowerCase();
+
+  const shifted = /^Shift-(.)$/.exec(name);
+  if (shifted) return shifted[1];
+
+  if (name == "Space") return " ";
+  if (name == "Ctrl-[") return "Esc";
+  if (
+    /^(Esc|Enter|Backspace|Delete|Left|Right|Up|Down|Home|End)$/.test(name) ||
+    /^Ctrl-[RV]$/.test(name)
+  ) {
+    return name;
+  }
+  return null;
+}
+
+/**
+ * Parses the keys typed so far into a command.
+ * @returns The command, "pending" when more keys are needed, or null when the keys don't form a command.
+ */
+function parseCommand(
+  keys: string[],
+  mode: VimMode
+): VimCommand | "pending" | null {
+  const visual = mode != "normal";
+  const command: VimCommand = {
+    register: null,
+    count: null,
+    key: "",
+    motion: null,
+    motionCount: null,
+    arg: null,
+  };
+  let i = 0;
+
+  // Reads a count. A leading 0 is the motion to the start of the line instead.
+  const count = () => {
+    let digits = "";
+    while (
+      i < keys.length &&
+      /^[0-9]$/.test(keys[i]) &&
+      (digits || keys[i] != "0")
+    ) {
+      digits += keys[i++];
+    }
+    return digits ? Number(digits) : null;
+  };
+  // Reads a command key, joining "g" with the key after it
+  const key = () => {
+    if (i >= keys.length) return undefined;
+    let key = keys[i++];
+    key = keyAliases[key] || key;
+    if (key == "g") {
+      if (i >= keys.length) return undefined;
+      key += keys[i++];
+    }
+    return key;
+  };
+  // Reads the character argument of f, t and r
+  const char = () => {
+    if (i >= keys.length) return undefined;
+    const char = keys[i++];
+    return char.length == 1 ? char : null;
+  };
+
+  if (keys[0] == '"') {
+    if (keys.length < 2) return "pending";
+    if (!/^[\w"]$/.test(keys[1])) return null;
+    command.register = keys[1];
+    i = 2;
+  }
+
+  command.count = count();
+  const first = key();
+  if (first === undefined) return "pending";
+  command.key = first;
+
+  if (visual) {
+    if (visualAliases.hasOwnProperty(first)) command.key = visualAliases[first];
+    if (first == "i" || first == "a") {
+      // Text objects grow the visual selection
+      if (i >= keys.length) return "pending";
+      if (!textObjects[keys[i]]) return null;
+      command.motion = first + keys[i++];
+      return command;
+    }
+    if (operators.indexOf(command.key) > -1 || first == "o") return command;
+  } else if (operatorAliases.hasOwnProperty(first)) {
+    [command.key, command.motion] = operatorAliases[first];
+    return command;
+  } else if (operators.indexOf(first) > -1) {
+    command.motionCount = count();
+    let motion = key();
+    if (motion === undefined) return "pending";
+
+    if (motion == "i" || motion == "a") {
+      if (i >= keys.length) return "pending";
+      if (!textObjects[keys[i]]) return null;
+      motion += keys[i++];
+    } else if (motion != first && !motions[motion]) {
+      return null;
+    }
+    command.motion = motion;
+
+    if ("fFtT".indexOf(motion) > -1) {
+      const arg = char();
+      if (arg === undefined) return "pending";
+      if (arg === null) return null;
+      command.arg = arg;
+    }
+    return command;
+  }
+
+  if (!motions[first] && actions.indexOf(first) == -1) return null;
+  if ("fFtTr".indexOf(first) > -1) {
+    const arg = char();
+    if (arg === undefined) return "pending";
+    if (arg === null) return null;
+    command.arg = arg;
+  }
+  return command;
+}
+
+function lineText(editor: AscendEditor, line: number) {
+  return editor.lines.get(line).text!;
+}
+
+function lastLine(editor: AscendEditor) {
+  return editor.lines.length - 1;
+}
+
+function cursor(editor: AscendEditor) {
+  const sel = editor.selection;
+  return copyPosition(sel.inverted ? sel.from : sel.to);
+}
+
+/**
+ * Keeps a position on a character, the way the cursor is in normal mode, rather than after the last one.
+ */
+function clipNormal(editor: AscendEditor, pos: Position): Position {
+  const line = Math.max(0, Math.min(pos.line, lastLine(editor)));
+  const length = lineText(editor, line).length;
+  return { line, ch: Math.max(0, Math.min(pos.ch, length - 1)) };
+}
+
+function firstNonBlank(editor: AscendEditor, line: number): Position {
+  const text = lineText(editor, line);
+  const ch = text.search(/\S/);
+  return { line, ch: ch == -1 ? text.length : ch };
+}
+
+function lineEnd(editor: AscendEditor, line: number): Position {
+  return { line, ch: lineText(editor, line).length };
+}
+
+/**
+ * Classifies characters for word motions: 0 for whitespace, 1 for word characters and 2 for other
+ * characters. For WORD motions everything but whitespace is 1.
+ */
+function charClass(editor: AscendEditor, ch: string, big: boolean) {
+  if (!ch || /\s/.test(ch)) return 0;
+  if (big || editor.isWordChar(ch)) return 1;
+  return 2;
+}
+
+/**
+ * Moves to the start of the next word (w, W). An empty line counts as a word.
+ */
+function wordStart(
+  editor: AscendEditor,
+  pos: Position,
+  count: number,
+  big: boolean
+): Position {
+  let { line, ch } = pos;
+  let text = lineText(editor, line);
+
+  for (let n = 0; n < count; n++) {
+    const cls = charClass(editor, text.charAt(ch), big);
+    if (cls) {
+      while (ch < text.length && charClass(editor, text.charAt(ch), big) == cls)
+        ch++;
+    }
+
+    while (true) {
+      if (ch >= text.length) {
+        if (line == lastLine(editor)) return { line, ch: text.length };
+        text = lineText(editor, ++line);
+        ch = 0;
+        if (!text.length) break;
+        continue;
+      }
+      if (charClass(editor, text.charAt(ch), big)) break;
+      ch++;
+    }
+  }
+  return { line, ch };
+}
+
+/**
+ * Moves to the end of the word (e, E), or of the next word when already at the end of one.
+ */
+function wordEnd(
+  editor: AscendEditor,
+  pos: Position,
+  count: number,
+  big: boolean
+): Position {
+  let { line, ch } = pos;
+  let text = lineText(editor, line);
+
+  for (let n = 0; n < count; n++) {
+    ch++;
+    while (ch >= text.length || !charClass(editor, text.charAt(ch), big)) {
+      if (ch >= text.length) {
+        if (line == lastLine(editor)) return { line, ch: text.length };
+        text = lineText(editor, ++line);
+        ch = 0;
+      } else {
+        ch++;
+      }
+    }
+
+    const cls = charClass(editor, text.charAt(ch), big);
+    while (
+      ch + 1 < text.length &&
+      charClass(editor, text.charAt(ch + 1), big) == cls
+    ) {
+      ch++;
+    }
+  }
+  return { line, ch };
+}
+
+/**
+ * Moves to the start of the word (b, B), or of the previous word when already at the start of one.
+ */
+function wordBack(
+  editor: AscendEditor,
+  pos: Position,
+  count: number,
+  big: boolean
+): Position {
+  let { line, ch } = pos;
+  let text = lineText(editor, line);
+
+  for (let n = 0; n < count; n++) {
+    ch--;
+    while (ch < 0 || !charClass(editor, text.charAt(ch), big)) {
+      if (ch < 0) {
+        if (line == 0) return { line: 0, ch: 0 };
+        text = lineText(editor, --line);
+        ch = text.length - 1;
+        // Empty lines are words of their own
+        if (!text.length) return { line, ch: 0 };
+      } else {
+        ch--;
+      }
+    }
+
+    const cls = charClass(editor, text.charAt(ch), big);
+    while (ch > 0 && charClass(editor, text.charAt(ch - 1), big) == cls) ch--;
+  }
+  return { line, ch };
+}
+
+/**
+ * Finds a character on the cursor's line for f, F, t and T.
+ * @param key - The motion, which decides the direction and whether to stop before the character.
+ * @param repeat - Whether this repeats the last find, in which case t and T skip an adjacent match.
+ */
+function findChar(
+  editor: AscendEditor,
+  pos: Position,
+  count: number,
+  key: string,
+  char: string,
+  repeat: boolean
+): Position | null {
+  const text = lineText(editor, pos.line);
+  const forward = key == "f" || key == "t";
+  const till = key == "t" || key == "T";
+  let ch = pos.ch;
+  if (repeat && till) ch += forward ? 1 : -1;
+
+  for (let n = 0; n < count; n++) {
+    ch = forward ? text.indexOf(char, ch + 1) : text.lastIndexOf(char, ch - 1);
+    if (ch == -1 || (!forward && ch == pos.ch)) return null;
+  }
+  if (till) ch += forward ? -1 : 1;
+  return { line: pos.line, ch };
+}
+
+/**
+ * Walks from a bracket to the one that balances it, skipping nested pairs.
+ * @param start - Position of the bracket to start from, which is not itself counted.
+ * @param forward - The direction to walk in.
+ * @param same - The bracket at the start, nested copies of which need their own match.
+ * @param target - The bracket that balances `same`.
+ */
+function scanForBracket(
+  editor: AscendEditor,
+  start: Position,
+  forward: boolean,
+  same: string,
+  target: string
+): Position | null {
+  const d = forward ? 1 : -1;
+  let depth = 0;
+
+  for (
+    let line = start.line;
+    forward ? line < editor.lines.length : line >= 0;
+    line += d
+  ) {
+    const text = lineText(editor, line);
+    let ch = line == start.line ? start.ch + d : forward ? 0 : text.length - 1;
+
+    for (; forward ? ch < text.length : ch >= 0; ch += d) {
+      const c = text.charAt(ch);
+      if (c == same) depth++;
+      else if (c == target) {
+        if (depth == 0) return { line, ch };
+        depth--;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds the bracket matching the first bracket at or after the cursor on its line, using the editor's
+ * `matching` table.
+ */
+function matchBracket(editor: AscendEditor, pos: Position): Position | null {
+  const text = lineText(editor, pos.line);
+  let ch = pos.ch;
+  while (ch < text.length && !matching[text.charAt(ch)]) ch++;
+  if (ch >= text.length) return null;
+
+  const bracket = text.charAt(ch);
+  const match = matching[bracket];
+  return scanForBracket(
+    editor,
+    { line: pos.line, ch },
+    match.charAt(1) == ">",
+    bracket,
+    match.charAt(0)
+  );
+}
+
+/**
+ * Turns a search typed after / or ? into a regular expression. The search ignores case unless it
+ * contains capitals, and is taken literally when it is not a valid expression.
+ */
+function searchQuery(query: string) {
+  const flags = /[A-Z]/.test(query) ? "" : "i";
+  try {
+    return new RegExp(query, flags);
+  } catch (e) {
+    return new RegExp(query.replace(/[\\^$.*+?()[\]{}|]/g, "\\$&"), flags);
+  }
+}
+
+/**
+ * Finds the next match of the last search, wrapping around the document.
+ * @param reverse - Whether to search in the opposite direction of the last search.
+ */
+function searchNext(
+  editor: AscendEditor,
+  state: VimState,
+  pos: Position,
+  count: number,
+  reverse: boolean
+): Position | null {
+  const search = state.lastSearch;
+  if (!search) return null;
+  const query = searchQuery(search.query);
+  const backward = search.reverse != reverse;
+  const last = lastLine(editor);
+
+  for (let n = 0; n < count; n++) {
+    let cursor = new SearchCursor(
+      query,
+      backward ? pos : { line: pos.line, ch: pos.ch + 1 },
+      editor
+    );
+    if (!(backward ? cursor.findPrevious() : cursor.findNext())) {
+      cursor = new SearchCursor(
+        query,
+        backward ? lineEnd(editor, last) : { line: 0, ch: 0 },
+        editor
+      );
+      if (!(backward ? cursor.findPrevious() : cursor.findNext())) return null;
+    }
+    pos = cursor.pos.from;
+  }
+  return pos;
+}
+
+/**
+ * Moves to the next or previous blank line after a paragraph ({, }).
+ */
+function paragraph(
+  editor: AscendEditor,
+  pos: Position,
+  count: number,
+  forward: boolean
+): Position {
+  const blank = (line: number) => !/\S/.test(lineText(editor, line));
+  const d = forward ? 1 : -1;
+  let line = pos.line;
+
+  for (let n = 0; n < count; n++) {
+    while (line + d >= 0 && line + d <= lastLine(editor) && blank(line))
+      line += d;
+    while (line + d >= 0 && line + d <= lastLine(editor) && !blank(line))
+      line += d;
+  }
+  return blank(line) || !forward ? { line, ch: 0 } : lineEnd(editor, line);
+}
+
+const motions: { [key: string]: Motion } = {
+  h: {
+    run: (_, pos, count) => ({
+      line: pos.line,
+      ch: Math.max(0, pos.ch - (count || 1)),
+    }),
+  },
+  l: {
+    run: (editor, pos, count) => ({
+      line: pos.line,
+      ch: Math.min(lineText(editor, pos.line).length, pos.ch + (count || 1)),
+    }),
+  },
+  j: {
+    run: (editor, pos, count, _, state) => {
+      const line = Math.min(lastLine(editor), pos.line + (count || 1));
+      if (line == pos.line) return null;
+      state.goal = state.goal ?? pos.ch;
+      return { line, ch: Math.min(state.goal, lineText(editor, line).length) };
+    },
+    linewise: true,
+    keepGoal: true,
+  },
+  k: {
+    run: (editor, pos, count, _, state) => {
+      const line = Math.max(0, pos.line - (count || 1));
+      if (line == pos.line) return null;
+      state.goal = state.goal ?? pos.ch;
+      return { line, ch: Math.min(state.goal, lineText(editor, line).length) };
+    },
+    linewise: true,
+    keepGoal: true,
+  },
+  w: { run: (editor, pos, count) => wordStart(editor, pos, count || 1, false) },
+  W: { run: (editor, pos, count) => wordStart(editor, pos, count || 1, true) },
+  e: {
+    run: (editor, pos, count) => wordEnd(editor, pos, count || 1, false),
+    inclusive: true,
+  },
+  E: {
+    run: (editor, pos, count) => wordEnd(editor, pos, count || 1, true),
+    inclusive: true,
+  },
+  b: { run: (editor, pos, count) => wordBack(editor, pos, count || 1, false) },
+  B: { run: (editor, pos, count) => wordBack(editor, pos, count || 1, true) },
+  "0": { run: (_, pos) => ({ line: pos.line, ch: 0 }) },
+  "^": { run: (editor, pos) => firstNonBlank(editor, pos.line) },
+  $: {
+    run: (editor, pos, count) =>
+      lineEnd(editor, Math.min(lastLine(editor), pos.line + (count || 1) - 1)),
+    inclusive: true,
+  },
+  gg: {
+    run: (editor, _, count) =>
+      firstNonBlank(editor, Math.min(lastLine(editor), (count || 1) - 1)),
+    linewise: true,
+  },
+  G: {
+    run: (editor, _, count) =>
+      firstNonBlank(
+        editor,
+        count ? Math.min(lastLine(editor), count - 1) : lastLine(editor)
+      ),
+    linewise: true,
+  },
+  "+": {
+    run: (editor, pos, count) => {
+      const line = pos.line + (count || 1);
+      return line > lastLine(editor) ? null : firstNonBlank(editor, line);
+    },
+    linewise: true,
+  },
+  "-": {
+    run: (editor, pos, count) => {
+      const line = pos.line - (count || 1);
+      return line < 0 ? null : firstNonBlank(editor, line);
+    },
+    linewise: true,
+  },
+  f: {
+    run: (editor, pos, count, arg, state) => {
+      state.lastFind = { key: "f", char: arg! };
+      return findChar(editor, pos, count || 1, "f", arg!, false);
+    },
+    inclusive: true,
+  },
+  t: {
+    run: (editor, pos, count, arg, state) => {
+      state.lastFind = { key: "t", char: arg! };
+      return findChar(editor, pos, count || 1, "t", arg!, false);
+    },
+    inclusive: true,
+  },
+  F: {
+    run: (editor, pos, count, arg, state) => {
+      state.lastFind = { key: "F", char: arg! };
+      return findChar(editor, pos, count || 1, "F", arg!, false);
+    },
+  },
+  T: {
+    run: (editor, pos, count, arg, state) => {
+      state.lastFind = { key: "T", char: arg! };
+      return findChar(editor, pos, count || 1, "T", arg!, false);
+    },
+  },
+  ";": {
+    run: (editor, pos, count, _, state) => {
+      const find = state.lastFind;
+      return find
+        ? findChar(editor, pos, count || 1, find.key, find.char, true)
+        : null;
+    },
+    inclusive: true,
+  },
+  ",": {
+    run: (editor, pos, count, _, state) => {
+      const find = state.lastFind;
+      if (!find) return null;
+      // The same search in the other direction
+      const key =
+        find.key == find.key.toLowerCase()
+          ? find.key.toUpperCase()
+          : find.key.toLowerCase();
+      return findChar(editor, pos, count || 1, key, find.char, true);
+    },
+  },
+  "%": { run: (editor, pos) => matchBracket(editor, pos), inclusive: true },
+  n: {
+    run: (editor, pos, count, _, state) =>
+      searchNext(editor, state, pos, count || 1, false),
+  },
+  N: {
+    run: (editor, pos, count, _, state) =>
+      searchNext(editor, state, pos, count || 1, true),
+  },
+  "}": {
+    run: (editor, pos, count) => paragraph(editor, pos, count || 1, true),
+  },
+  "{": {
+    run: (editor, pos, count) => paragraph(editor, pos, count || 1, false),
+  },
+};
+
+/**
+ * Finds a word text object: `iw` is the word (or run of spaces or punctuation) at the cursor, `aw` adds the
+ * whitespace after it, or before it when there is none after.
+ */
+function wordObject(
+  editor: AscendEditor,
+  pos: Position,
+  inner: boolean
+): VimRange {
+  const word = editor.wordAt(pos);
+  const text = lineText(editor, pos.line);
+  let { from, to } = word;
+
+  if (!inner) {
+    let end = to.ch;
+    while (end < text.length && /\s/.test(text.charAt(end))) end++;
+    if (end > to.ch) to = { line: to.line, ch: end };
+    else {
+      let start = from.ch;
+      while (start > 0 && /\s/.test(text.charAt(start - 1))) start--;
+      from = { line: from.line, ch: start };
+    }
+  }
+  return { from, to, linewise: false };
+}
+
+/**
+ * Finds a quoted string on the cursor's line: the one the cursor is in, or the next one.
+ */
+function quoteObject(
+  editor: AscendEditor,
+  pos: Position,
+  inner: boolean,
+  quote: string
+): VimRange | null {
+  const text = lineText(editor, pos.line);
+  const quotes: number[] = [];
+  for (let ch = 0; ch < text.length; ch++) {
+    if (text.charAt(ch) == "\\") ch++;
+    else if (text.charAt(ch) == quote) quotes.push(ch);
+  }
+
+  for (let i = 0; i + 1 < quotes.length; i += 2) {
+    if (quotes[i + 1] < pos.ch) continue;
+    let start = quotes[i];
+    let end = quotes[i + 1] + 1;
+    if (inner) {
+      start++;
+      end--;
+    } else if (/\s/.test(text.charAt(end))) {
+      while (end < text.length && /\s/.test(text.charAt(end))) end++;
+    } else {
+      while (start > 0 && /\s/.test(text.charAt(start - 1))) start--;
+    }
+    return {
+      from: { line: pos.line, ch: start },
+      to: { line: pos.line, ch: end },
+      linewise: false,
+    };
+  }
+  return null;
+}
+
+/**
+ * Finds the brackets around the cursor, the `count`th pair out. The inner object of brackets on lines of
+ * their own is the lines between them.
+ */
+function bracketObject(
+  editor: AscendEditor,
+  pos: Position,
+  inner: boolean,
+  open: string,
+  count: number
+): VimRange | null {
+  const close = matching[open].charAt(0);
+  const at = lineText(editor, pos.line).charAt(pos.ch);
+  let start: Position | null =
+    at == open
+      ? pos
+      : at == close
+        ? scanForBracket(editor, pos, false, close, open)
+        : scanForBracket(editor, pos, false, close, open);
+
+  for (let n = 1; n < count && start; n++) {
+    start = scanForBracket(editor, start, false, close, open);
+  }
+  if (!start) return null;
+  const end = scanForBracket(editor, start, true, open, close);
+  if (!end) return null;
+
+  if (!inner) {
+    return {
+      from: start,
+      to: { line: end.line, ch: end.ch + 1 },
+      linewise: false,
+    };
+  }
+
+  const startText = lineText(editor, start.line);
+  const endText = lineText(editor, end.line);
+  if (
+    start.ch == startText.length - 1 &&
+    !/\S/.test(endText.slice(0, end.ch)) &&
+    end.line > start.line + 1
+  ) {
+    return {
+      from: { line: start.line + 1, ch: 0 },
+      to: lineEnd(editor, end.line - 1),
+      linewise: true,
+    };
+  }
+  return {
+    from: { line: start.line, ch: start.ch + 1 },
+    to: end,
+    linewise: false,
+  };
+}
+
+/**
+ * Finds the paragraph around the cursor: a run of non-blank lines, or of blank lines. `ap` adds the blank
+ * lines after it.
+ */
+function paragraphObject(
+  editor: AscendEditor,
+  pos: Position,
+  inner: boolean
+): VimRange {
+  const blank = (line: number) => !/\S/.test(lineText(editor, line));
+  const kind = blank(pos.line);
+  let first = pos.line;
+  let last = pos.line;
+  while (first > 0 && blank(first - 1) == kind) first--;
+  while (last < lastLine(editor) && blank(last + 1) == kind) last++;
+  if (!inner) {
+    while (last < lastLine(editor) && blank(last + 1) != kind) last++;
+  }
+  return {
+    from: { line: first, ch: 0 },
+    to: lineEnd(editor, last),
+    linewise: true,
+  };
+}
+
+const textObjects: {
+  [key: string]: (
+    editor: AscendEditor,
+    pos: Position,
+    inner: boolean,
+    count: number
+  ) => VimRange | null;
+} = {
+  w: wordObject,
+  p: paragraphObject,
+  '"': (editor, pos, inner) => quoteObject(editor, pos, inner, '"'),
+  "'": (editor, pos, inner) => quoteObject(editor, pos, inner, "'"),
+  "`": (editor, pos, inner) => quoteObject(editor, pos, inner, "`"),
+};
+for (const [open, names] of [
+  ["(", "()b"],
+  ["{", "{}B"],
+  ["[", "[]"],
+]) {
+  for (const name of names) {
+    textObjects[name] = (editor, pos, inner, count) =>
+      bracketObject(editor, pos, inner, open, count);
+  }
+}
+
+/**
+ * Stores text in a register. Without a register name the text goes in the unnamed register, and yanks also
+ * in register 0. Upper case names append to the register, and "_" throws the text away.
+ */
+function storeRegister(
+  name: string | null,
+  text: string,
+  linewise: boolean,
+  yank: boolean
+) {
+  if (name == "_") return;
+  let value: Register = { text, linewise };
+
+  if (name && /^[A-Z]$/.test(name)) {
+    name = name.toLowerCase();
+    const prev = registers[name];
+    if (prev) {
+      linewise = linewise || prev.linewise;
+      value = { text: prev.text + (linewise ? "\n" : "") + text, linewise };
+    }
+  }
+
+  if (name && name != '"') registers[name] = value;
+  else if (yank) registers["0"] = value;
+  registers['"'] = value;
+}
+
+function rangeText(editor: AscendEditor, range: VimRange) {
+  if (!range.linewise) return editor.doc.getRange(range.from, range.to, "\n");
+  return editor.doc.getRange(
+    { line: range.from.line, ch: 0 },
+    lineEnd(editor, range.to.line),
+    "\n"
+  );
+}
+
+/**
+ * Deletes whole lines, along with one of the line breaks around them.
+ */
+function deleteLines(editor: AscendEditor, first: number, last: number) {
+  if (last < lastLine(editor)) {
+    editor.replaceRange(
+      "",
+      { line: first, ch: 0 },
+      { line: last + 1, ch: 0 },
+      "delete"
+    );
+  } else if (first > 0) {
+    editor.replaceRange(
+      "",
+      lineEnd(editor, first - 1),
+      lineEnd(editor, last),
+      "delete"
+    );
+  } else {
+    editor.replaceRange(
+      "",
+      { line: 0, ch: 0 },
+      lineEnd(editor, last),
+      "delete"
+    );
+  }
+}
+
+/**
+ * Shifts the indentation of lines by `indentUnit` columns. Blank lines are left alone.
+ * @param dir - 1 to indent, -1 to dedent.
+ */
+function shiftLines(
+  editor: AscendEditor,
+  first: number,
+  last: number,
+  dir: number,
+  times: number
+) {
+  const unit = editor.options.indentUnit;
+  for (let line = first; line <= last; line++) {
+    const text = lineText(editor, line);
+    if (!/\S/.test(text)) continue;
+    const indent = text.search(/\S/);
+    const width = countColumn(text, indent, editor.options.tabSize);
+    const target = Math.max(0, width + dir * unit * times);
+    editor.replaceRange(
+      " ".repeat(target),
+      { line, ch: 0 },
+      { line, ch: indent },
+      "indent"
+    );
+  }
+}
+
+/**
+ * Joins lines with the line after them, putting a space between them unless one side is blank.
+ * @returns Where the last join happened.
+ */
+function joinLines(editor: AscendEditor, line: number, count: number) {
+  let pos = cursor(editor);
+  for (let n = 1; n < Math.max(count, 2) && line < lastLine(editor); n++) {
+    const text = lineText(editor, line);
+    const next = lineText(editor, line + 1);
+    const indent = next.search(/\S|$/);
+    const sep =
+      /\s$/.test(text) ||
+      !text.length ||
+      indent == next.length ||
+      next.charAt(indent) == ")"
+        ? ""
+        : " ";
+    pos = { line, ch: text.length };
+    editor.replaceRange(sep, pos, { line: line + 1, ch: indent }, "vim");
+  }
+  return pos;
+}
+
+function toggleCase(text: string) {
+  return text.replace(/./g, (ch) =>
+    ch == ch.toLowerCase() ? ch.toUpperCase() : ch.toLowerCase()
+  );
+}
+
+function updateStatus(state: VimState) {
+  let text = modeLabels[state.mode];
+  if (state.prompt) {
+    text = (state.prompt.reverse ? "?" : "/") + state.prompt.text;
+  } else if (state.keys.length) {
+    text += " " + state.keys.join("");
+  }
+  state.status.textContent = text;
+}
+
+function setMode(editor: AscendEditor, state: VimState, mode: VimMode) {
+  if (state.mode == mode) return;
+  state.mode = mode;
+  if (mode == "insert") editor.div.classList.remove("ascend-editor-fat-cursor");
+  else editor.div.classList.add("ascend-editor-fat-cursor");
+  updateStatus(state);
+  editor.signalLater("vimModeChange", editor, mode);
+}
+
+/**
+ * Shows the visual selection in the editor. Visual mode selects the characters from the anchor to the head,
+ * visual line mode their whole lines and visual block mode the block between them.
+ */
+function updateVisual(editor: AscendEditor, state: VimState) {
+  const { anchor, head } = state;
+  const backward = positionLess(head, anchor);
+  const from = backward ? head : anchor;
+  const to = backward ? anchor : head;
+
+  if (state.mode == "visual") {
+    const end = {
+      line: to.line,
+      ch: Math.min(to.ch + 1, lineText(editor, to.line).length),
+    };
+    editor.clearSecondarySelections();
+    if (backward) editor.setSelection(end, from);
+    else editor.setSelection(from, end);
+  } else if (state.mode == "visual-line") {
+    editor.clearSecondarySelections();
+    editor.setSelection({ line: from.line, ch: 0 }, lineEnd(editor, to.line));
+  } else {
+    const tabSize = editor.options.tabSize;
+    const anchorCol = countColumn(
+      lineText(editor, anchor.line),
+      anchor.ch,
+      tabSize
+    );
+    const headCol = countColumn(lineText(editor, head.line), head.ch, tabSize);
+    // The block covers the characters at both corners
+    const left = headCol < anchorCol;
+    editor.setBlockSelection(
+      { line: anchor.line, col: left ? anchorCol + 1 : anchorCol },
+      { line: head.line, col: left ? headCol : headCol + 1 }
+    );
+  }
+  state.visualSelection = JSON.stringify(editor.listSelections());
+}
+
+function enterVisual(editor: AscendEditor, state: VimState, mode: VimMode) {
+  if (state.mode == "normal") {
+    state.anchor = cursor(editor);
+    state.head = copyPosition(state.anchor);
+  }
+  setMode(editor, state, mode);
+  updateVisual(editor, state);
+}
+
+function exitVisual(editor: AscendEditor, state: VimState, pos?: Position) {
+  setMode(editor, state, "normal");
+  editor.clearSecondarySelections();
+  const target = clipNormal(editor, pos || state.head);
+  editor.setCursor(target.line, target.ch);
+}
+
+/**
+ * Starts insert mode at a position. The command that led here and the text typed in insert mode are undone
+ * in one step, so the undo group is opened before the command makes its changes.
+ * @param group - Whether to open the undo group here, when the command didn't already.
+ */
+function enterInsert(
+  editor: AscendEditor,
+  state: VimState,
+  pos: Position | null,
+  group: boolean = true
+) {
+  if (group) openInsertGroup(editor, state);
+  if (pos) editor.setCursor(pos.line, pos.ch);
+  state.insertStart = cursor(editor);
+  setMode(editor, state, "insert");
+}
+
+function openInsertGroup(editor: AscendEditor, state: VimState) {
+  editor.history?.startGroup();
+  state.insertGroup = editor.history;
+}
+
+function closeInsertGroup(state: VimState) {
+  state.insertGroup?.endGroup();
+  state.insertGroup = null;
+}
+
+/**
+ * Leaves insert mode, recording the typed text for "." and stepping back onto the last typed character.
+ */
+function exitInsert(editor: AscendEditor, state: VimState) {
+  editor.shiftSelecting = null;
+  const pos = cursor(editor);
+  const start = state.insertStart;
+
+  if (state.pendingChange && !state.replaying) {
+    const text =
+      start && !positionLess(pos, start)
+        ? editor.doc.getRange(start, pos, "\n")
+        : "";
+    state.lastChange = { command: state.pendingChange, text };
+  }
+  state.pendingChange = null;
+  state.insertStart = null;
+
+  closeInsertGroup(state);
+
+  setMode(editor, state, "normal");
+  editor.clearSecondarySelections();
+  editor.setCursor(pos.line, Math.max(0, pos.ch - 1));
+}
+
+/**
+ * Computes the text an operator works on in normal mode, from the cursor and the command's motion or text
+ * object.
+ */
+function operatorRange(
+  editor: AscendEditor,
+  state: VimState,
+  command: VimCommand
+): VimRange | null {
+  const pos = cursor(editor);
+  const count =
+    command.count || command.motionCount
+      ? (command.count || 1) * (command.motionCount || 1)
+      : null;
+  let key = command.motion!;
+
+  // A doubled operator, like dd, works on whole lines
+  if (key == command.key) {
+    const last = Math.min(lastLine(editor), pos.line + (count || 1) - 1);
+    return {
+      from: { line: pos.line, ch: 0 },
+      to: lineEnd(editor, last),
+      linewise: true,
+    };
+  }
+
+  if (key.length == 2 && (key[0] == "i" || key[0] == "a")) {
+    return textObjects[key[1]](editor, pos, key[0] == "i", count || 1);
+  }
+
+  // cw changes to the end of the word, like ce, unless the cursor is on whitespace
+  const text = lineText(editor, pos.line);
+  if (
+    command.key == "c" &&
+    (key == "w" || key == "W") &&
+    /\S/.test(text.charAt(pos.ch))
+  ) {
+    key = key == "w" ? "e" : "E";
+  }
+
+  const motion = motions[key];
+  const target = motion.run(editor, pos, count, command.arg, state);
+  if (!target) return null;
+
+  const backward = positionLess(target, pos);
+  let from = backward ? target : pos;
+  let to = backward ? pos : target;
+
+  if (motion.linewise) {
+    return {
+      from: { line: from.line, ch: 0 },
+      to: lineEnd(editor, to.line),
+      linewise: true,
+    };
+  }
+  if (motion.inclusive) {
+    to = {
+      line: to.line,
+      ch: Math.min(to.ch + 1, lineText(editor, to.line).length),
+    };
+  } else if (
+    to.line > from.line &&
+    (to.ch == 0 || ((key == "w" || key == "W") && !backward))
+  ) {
+    // An exclusive motion that ends at the start of a line stops at the end of the line before instead, and
+    // so does a word motion that moves past the last word of a line
+    to = lineEnd(editor, to.line - 1);
+  }
+  return { from, to, linewise: false };
+}
+
+/**
+ * Applies an operator to a range of text.
+ */
+function applyOperator(
+  editor: AscendEditor,
+  state: VimState,
+  command: VimCommand,
+  range: VimRange
+) {
+  const { from, to, linewise } = range;
+  const op = command.key;
+
+  if (op == "y") {
+    storeRegister(command.register, rangeText(editor, range), linewise, true);
+    const pos = linewise ? { line: from.line, ch: cursor(editor).ch } : from;
+    const target = clipNormal(editor, pos);
+    editor.setCursor(target.line, target.ch);
+  } else if (op == "d") {
+    storeRegister(command.register, rangeText(editor, range), linewise, false);
+    if (linewise) {
+      deleteLines(editor, from.line, to.line);
+      const target = firstNonBlank(
+        editor,
+        Math.min(from.line, lastLine(editor))
+      );
+      editor.setCursor(target.line, target.ch);
+    } else {
+      editor.replaceRange("", from, to, "delete");
+      editor.setCursor(from.line, from.ch);
+    }
+  } else if (op == "c") {
+    storeRegister(command.register, rangeText(editor, range), linewise, false);
+    openInsertGroup(editor, state);
+    if (linewise) {
+      // Keep the indentation of the first line
+      const indent = lineText(editor, from.line).match(/^\s*/)![0];
+      const end = editor.replaceRange(
+        indent,
+        { line: from.line, ch: 0 },
+        lineEnd(editor, to.line),
+        "delete"
+      );
+      enterInsert(editor, state, end, false);
+    } else {
+      editor.replaceRange("", from, to, "delete");
+      enterInsert(editor, state, from, false);
+    }
+  } else {
+    shiftLines(editor, from.line, to.line, op == ">" ? 1 : -1, 1);
+    const target = firstNonBlank(editor, from.line);
+    editor.setCursor(target.line, target.ch);
+  }
+}
+
+/**
+ * Puts the text of a register after or before the cursor. Linewise text goes on new lines below or above.
+ */
+function put(editor: AscendEditor, command: VimCommand, before: boolean) {
+  const register = registers[command.register || '"'];
+  if (!register) return;
+  const count = command.count || 1;
+  const pos = cursor(editor);
+
+  if (register.linewise) {
+    const text = Array(count).fill(register.text).join("\n");
+    let line = pos.line;
+    if (before) {
+      editor.replaceRange(text + "\n", { line, ch: 0 }, undefined, "paste");
+    } else {
+      editor.replaceRange(
+        "\n" + text,
+        lineEnd(editor, line),
+        undefined,
+        "paste"
+      );
+      line++;
+    }
+    const target = firstNonBlank(editor, line);
+    editor.setCursor(target.line, target.ch);
+  } else {
+    const text = register.text.repeat(count);
+    const length = lineText(editor, pos.line).length;
+    const at = before
+      ? pos
+      : { line: pos.line, ch: Math.min(pos.ch + 1, length) };
+    const end = editor.replaceRange(text, at, at, "paste");
+    editor.setCursor(end.line, Math.max(0, end.ch - 1));
+  }
+}
+
+/**
+ * Runs a motion, moving the cursor in normal mode or the head of the selection in visual mode.
+ */
+function runMotion(editor: AscendEditor, state: VimState, command: VimCommand) {
+  const motion = motions[command.key];
+  const visual = state.mode != "normal";
+  const pos = visual ? state.head : cursor(editor);
+  if (!motion.keepGoal) state.goal = null;
+
+  const target = motion.run(editor, pos, command.count, command.arg, state);
+  if (!target) return;
+  if (command.key == "$") state.goal = Infinity;
+
+  if (visual) {
+    state.head = clipNormal(editor, target);
+    updateVisual(editor, state);
+  } else {
+    const clipped = clipNormal(editor, target);
+    editor.setCursor(clipped.line, clipped.ch);
+  }
+}
+
+/**
+ * Runs a command in visual mode.
+ */
+function runVisual(editor: AscendEditor, state: VimState, command: VimCommand) {
+  const key = command.key;
+  const mode = state.mode;
+  const from = positionLess(state.head, state.anchor)
+    ? state.head
+    : state.anchor;
+  const to = positionLess(state.head, state.anchor) ? state.anchor : state.head;
+
+  if (command.motion) {
+    // A text object sets the selection to the object
+    const range = textObjects[command.motion[1]](
+      editor,
+      state.head,
+      command.motion[0] == "i",
+      command.count || 1
+    );
+    if (!range) return;
+    if (range.linewise && mode == "visual")
+      setMode(editor, state, "visual-line");
+    state.anchor = range.from;
+    state.head = clipNormal(editor, {
+      line: range.to.line,
+      ch: range.linewise ? range.to.ch : range.to.ch - 1,
+    });
+    updateVisual(editor, state);
+  } else if (key == "v" || key == "V" || key == "Ctrl-V") {
+    const next =
+      key == "v" ? "visual" : key == "V" ? "visual-line" : "visual-block";
+    if (next == mode) exitVisual(editor, state);
+    else enterVisual(editor, state, next);
+  } else if (key == "o") {
+    [state.anchor, state.head] = [state.head, state.anchor];
+    updateVisual(editor, state);
+  } else if (motions[key]) {
+    runMotion(editor, state, command);
+  } else if (mode == "visual-block" && key != ">" && key != "<") {
+    runBlock(editor, state, command, from, to);
+  } else if (operators.indexOf(key) > -1) {
+    const range: VimRange =
+      mode == "visual-line"
+        ? {
+            from: { line: from.line, ch: 0 },
+            to: lineEnd(editor, to.line),
+            linewise: true,
+          }
+        : {
+            from,
+            to: {
+              line: to.line,
+              ch: Math.min(to.ch + 1, lineText(editor, to.line).length),
+            },
+            linewise: false,
+          };
+    if (key == ">" || key == "<") {
+      shiftLines(
+        editor,
+        from.line,
+        to.line,
+        key == ">" ? 1 : -1,
+        command.count || 1
+      );
+      exitVisual(editor, state, firstNonBlank(editor, from.line));
+      return;
+    }
+    setMode(editor, state, "normal");
+    editor.clearSecondarySelections();
+    editor.setCursor(from.line, from.ch);
+    applyOperator(editor, state, command, range);
+  } else if (key == "J") {
+    const pos = joinLines(editor, from.line, to.line - from.line + 1);
+    exitVisual(editor, state, pos);
+  } else if (key == "~") {
+    const end = {
+      line: to.line,
+      ch: Math.min(to.ch + 1, lineText(editor, to.line).length),
+    };
+    const start = mode == "visual-line" ? { line: from.line, ch: 0 } : from;
+    const stop = mode == "visual-line" ? lineEnd(editor, to.line) : end;
+    editor.replaceRange(
+      toggleCase(editor.doc.getRange(start, stop, "\n")),
+      start,
+      stop,
+      "vim"
+    );
+    exitVisual(editor, state, start);
+  } else if (key == "p" || key == "P") {
+    const register = registers[command.register || '"'];
+    if (!register) return;
+    let start = from;
+    let stop = {
+      line: to.line,
+      ch: Math.min(to.ch + 1, lineText(editor, to.line).length),
+    };
+    let text = register.text;
+    if (mode == "visual-line") {
+      start = { line: from.line, ch: 0 };
+      stop = lineEnd(editor, to.line);
+    } else if (register.linewise) {
+      text = "\n" + text + "\n";
+    }
+    setMode(editor, state, "normal");
+    editor.clearSecondarySelections();
+    editor.replaceRange(text, start, stop, "paste");
+    const target = clipNormal(editor, start);
+    editor.setCursor(target.line, target.ch);
+  } else if (key == "I" || key == "A") {
+    setMode(editor, state, "normal");
+    editor.clearSecondarySelections();
+    enterInsert(
+      editor,
+      state,
+      key == "I" ? from : { line: to.line, ch: to.ch + 1 }
+    );
+  }
+}
+
+/**
+ * Runs an operator or insert command on a visual block, which works on every line of the block at once.
+ */
+function runBlock(
+  editor: AscendEditor,
+  state: VimState,
+  command: VimCommand,
+  from: Position,
+  to: Position
+) {
+  const key = command.key;
+  const ranges = editor.listSelections();
+  const text = editor.getSelections("\n").join("\n");
+
+  if (key == "y") {
+    storeRegister(command.register, text, false, true);
+    exitVisual(editor, state, ranges[0].from);
+  } else if (key == "d" || key == "c") {
+    storeRegister(command.register, text, false, false);
+    if (key == "c") openInsertGroup(editor, state);
+    editor.replaceSelection("", "start", "delete");
+    if (key == "d") {
+      exitVisual(editor, state, ranges[0].from);
+    } else {
+      // Typing goes to every line of the block
+      state.insertStart = cursor(editor);
+      setMode(editor, state, "insert");
+    }
+  } else if (key == "I" || key == "A") {
+    editor.setSelections(
+      ranges.map((range) => ({ from: key == "I" ? range.from : range.to })),
+      ranges.findIndex((range) => range.from.line == state.head.line)
+    );
+    enterInsert(editor, state, null);
+  } else if (key == "~") {
+    editor.replaceSelections(
+      editor.getSelections("\n").map(toggleCase),
+      "start",
+      "vim"
+    );
+    exitVisual(editor, state, ranges[0].from);
+  } else if (key == "J") {
+    exitVisual(
+      editor,
+      state,
+      joinLines(editor, from.line, to.line - from.line + 1)
+    );
+  } else {
+    exitVisual(editor, state, ranges[0].from);
+  }
+}
+
+/**
+ * Runs an action: a normal mode command that is neither a motion nor an operator.
+ */
+function runAction(editor: AscendEditor, state: VimState, command: VimCommand) {
+  const key = command.key;
+  const count = command.count || 1;
+  const pos = cursor(editor);
+  const text = lineText(editor, pos.line);
+
+  switch (key) {
+    case "i":
+      return enterInsert(editor, state, pos);
+    case "a":
+      return enterInsert(editor, state, {
+        line: pos.line,
+        ch: Math.min(pos.ch + 1, text.length),
+      });
+    case "I":
+      return enterInsert(editor, state, firstNonBlank(editor, pos.line));
+    case "A":
+      return enterInsert(editor, state, lineEnd(editor, pos.line));
+    case "o":
+    case "O": {
+      openInsertGroup(editor, state);
+      const line = key == "o" ? pos.line + 1 : pos.line;
+      editor.replaceRange(
+        "\n",
+        key == "o" ? lineEnd(editor, pos.line) : { line: pos.line, ch: 0 },
+        undefined,
+        "+input"
+      );
+      editor.indentLine(line);
+      return enterInsert(editor, state, lineEnd(editor, line), false);
+    }
+    case "p":
+    case "P":
+      return put(editor, command, key == "P");
+    case "u":
+    case "Ctrl-R": {
+      for (let n = 0; n < count; n++) {
+        if (key == "u") editor.undo();
+        else editor.redo();
+      }
+      // Undo restores the selection of the change, which can be a visual one
+      const target = clipNormal(editor, editor.selection.from);
+      return editor.setCursor(target.line, target.ch);
+    }
+    case "J": {
+      const join = joinLines(editor, pos.line, count);
+      return editor.setCursor(join.line, join.ch);
+    }
+    case "r":
+      if (pos.ch + count > text.length) return;
+      editor.replaceRange(
+        command.arg!.repeat(count),
+        pos,
+        { line: pos.line, ch: pos.ch + count },
+        "vim"
+      );
+      return editor.setCursor(pos.line, pos.ch + count - 1);
+    case "~": {
+      const end = Math.min(pos.ch + count, text.length);
+      if (end == pos.ch) return;
+      editor.replaceRange(
+        toggleCase(text.slice(pos.ch, end)),
+        pos,
+        { line: pos.line, ch: end },
+        "vim"
+      );
+      return editor.setCursor(pos.line, Math.min(end, text.length - 1));
+    }
+    case ".":
+      return repeatChange(editor, state, command.count);
+    case "v":
+      return enterVisual(editor, state, "visual");
+    case "V":
+      return enterVisual(editor, state, "visual-line");
+    case "Ctrl-V":
+      return enterVisual(editor, state, "visual-block");
+    case "/":
+    case "?":
+      state.prompt = { text: "", reverse: key == "?" };
+      return;
+    case "*":
+    case "#": {
+      const word = editor.wordAt(pos);
+      const query = editor.doc.getRange(word.from, word.to, "\n");
+      if (!/\w/.test(query)) return;
+      state.lastSearch = {
+        query: "\\b" + query.replace(/[\\^$.*+?()[\]{}|]/g, "\\$&") + "\\b",
+        reverse: key == "#",
+      };
+      return runMotion(editor, state, { ...command, key: "n" });
+    }
+  }
+}
+
+/**
+ * Repeats the last change, with a new count when one is given.
+ */
+function repeatChange(
+  editor: AscendEditor,
+  state: VimState,
+  count: number | null
+) {
+  const change = state.lastChange;
+  if (!change) return;
+  const command = { ...change.command };
+  if (count) {
+    command.count = count;
+    command.motionCount = null;
+  }
+
+  state.replaying = true;
+  try {
+    runCommand(editor, state, command);
+    if (state.mode == "insert") {
+      if (change.text) editor.replaceSelection(change.text, "end", "+input");
+      exitInsert(editor, state);
+    }
+  } finally {
+    state.replaying = false;
+  }
+}
+
+function runCommand(
+  editor: AscendEditor,
+  state: VimState,
+  command: VimCommand
+) {
+  if (state.mode != "normal") return runVisual(editor, state, command);
+
+  const key = command.key;
+  if (!state.replaying && key.length == 1 && repeatable.indexOf(key) > -1) {
+    state.pendingChange = command;
+  }
+
+  if (command.motion) {
+    const range = operatorRange(editor, state, command);
+    if (range) applyOperator(editor, state, command, range);
+  } else if (motions[key]) {
+    runMotion(editor, state, command);
+  } else {
+    runAction(editor, state, command);
+  }
+  if (!motions[key]) state.goal = null;
+
+  // Changes that don't go on in insert mode are complete. The command may have changed the mode.
+  if (state.pendingChange == command && (state.mode as VimMode) != "insert") {
+    state.lastChange = { command, text: null };
+    state.pendingChange = null;
+  }
+}
+
+/**
+ * Handles a key typed in the / or ? prompt.
+ */
+function promptKey(editor: AscendEditor, state: VimState, key: string) {
+  const prompt = state.prompt!;
+
+  if (key == "Esc") {
+    state.prompt = null;
+  } else if (key == "Enter") {
+    state.prompt = null;
+    const query = prompt.text || state.lastSearch?.query;
+    if (query) {
+      state.lastSearch = { query, reverse: prompt.reverse };
+      runMotion(editor, state, {
+        register: null,
+        count: null,
+        key: "n",
+        motion: null,
+        motionCount: null,
+        arg: null,
+      });
+    }
+  } else if (key == "Backspace") {
+    if (prompt.text) prompt.text = prompt.text.slice(0, -1);
+    else state.prompt = null;
+  } else if (key.length == 1) {
+    prompt.text += key;
+  }
+  updateStatus(state);
+}
+
+/**
+ * Handles a key in normal or visual mode.
+ */
+function handleKey(editor: AscendEditor, state: VimState, key: string) {
+  // Vim sets the selection itself, Shift doesn't extend it
+  editor.shiftSelecting = null;
+  if (state.prompt) return promptKey(editor, state, key);
+
+  if (key == "Esc") {
+    if (state.keys.length) state.keys = [];
+    else if (state.mode != "normal") exitVisual(editor, state);
+    else editor.clearSecondarySelections();
+    updateStatus(state);
+    return;
+  }
+
+  state.keys.push(key);
+  const command = parseCommand(state.keys, state.mode);
+  if (command == "pending") return updateStatus(state);
+  state.keys = [];
+
+  if (command) {
+    // Undo and redo must not run inside an undo group
+    if (command.key == "u" || command.key == "Ctrl-R") {
+      runCommand(editor, state, command);
+    } else {
+      editor.withUndoGroup(() => runCommand(editor, state, command));
+    }
+  }
+
+  if (state.mode == "normal") {
+    const pos = cursor(editor);
+    const clipped = clipNormal(editor, pos);
+    if (
+      !positionEqual(pos, clipped) ||
+      !positionEqual(editor.selection.from, editor.selection.to)
+    ) {
+      editor.setCursor(clipped.line, clipped.ch);
+    }
+  }
+  updateStatus(state);
+}
+
+/**
+ * Follows selection changes made outside of the keymap, such as with the mouse. Selecting text in normal
+ * mode starts visual mode, and clicking in visual mode ends it.
+ */
+function syncSelection(editor: AscendEditor, state: VimState) {
+  const sel = editor.selection;
+  const empty = positionEqual(sel.from, sel.to);
+
+  if (state.mode == "normal") {
+    if (!empty) {
+      state.anchor = copyPosition(sel.inverted ? sel.to : sel.from);
+      const head = sel.inverted ? sel.from : sel.to;
+      state.head = clipNormal(
+        editor,
+        sel.inverted ? head : { line: head.line, ch: head.ch - 1 }
+      );
+      setMode(editor, state, "visual");
+      updateVisual(editor, state);
+    } else {
+      const clipped = clipNormal(editor, sel.from);
+      if (!positionEqual(clipped, sel.from))
+        editor.setCursor(clipped.line, clipped.ch);
+    }
+  } else if (state.mode != "insert") {
+    if (JSON.stringify(editor.listSelections()) == state.visualSelection)
+      return;
+    if (empty) exitVisual(editor, state, sel.from);
+    else {
+      state.anchor = copyPosition(sel.inverted ? sel.to : sel.from);
+      state.head = clipNormal(
+        editor,
+        sel.inverted ? sel.from : { line: sel.to.line, ch: sel.to.ch - 1 }
+      );
+      updateVisual(editor, state);
+    }
+  }
+}
+
+/**
+ * The Vim keymap. It computes its bindings from the keys typed so far, so it has no fixed key names. Keys
+ * in insert mode, except Escape, fall through to the default keymap.
+ */
+export const vimKeyMap: KeyMap = {
+  call(key: string, editor: AscendEditor): Command | undefined {
+    const state = states.get(editor);
+    if (!state) return undefined;
+    const name = vimKey(key);
+
+    if (state.mode == "insert") {
+      return name == "Esc" ? () => exitInsert(editor, state) : undefined;
+    }
+    if (name) return () => handleKey(editor, state, name);
+    // Keys with modifiers go to the default keymap, other keys must not type text
+    return /^(Cmd|Ctrl|Alt)-/.test(key) ? undefined : () => {};
+  },
+
+  attach(editor: AscendEditor) {
+    const status = editor.div.appendChild(document.createElement("div"));
+    status.className = "ascend-editor-vim-status";
+
+    const state: VimState = new VimState(status, () =>
+      editor.operation(() => syncSelection(editor, state))()
+    );
+    states.set(editor, state);
+    editor.on("cursorActivity", state.onCursorActivity);
+
+    editor.div.classList.add("ascend-editor-fat-cursor");
+    updateStatus(state);
+    state.onCursorActivity();
+    editor.signalLater("vimModeChange", editor, state.mode);
+  },
+
+  detach(editor: AscendEditor) {
+    const state = states.get(editor);
+    if (!state) return;
+    closeInsertGroup(state);
+
+    editor.off("cursorActivity", state.onCursorActivity);
+    state.status.parentNode?.removeChild(state.status);
+    editor.div.classList.remove("ascend-editor-fat-cursor");
+    states.delete(editor);
+  },
+
+  fallthrough: "default",
+};
@@ -1,12 +1,25 @@
 import "./style.css";
-import type { Change, Position } from "./interfaces";
-import { AsEvent, connect } from "./utils/events";
+import type {
+  BeforeChange,
+  Change,
+  HistoryEvent,
+  MacroStep,
+  Position,
+  SelectionState,
+  SerializedHistory,
+} from "./interfaces";
+import { AsEvent, Emitter, connect } from "./utils/events";
 import {
+  adjustPos,
+  changeEnd,
   copyPosition,
   copyState,
-  editEnd,
   eltOffset,
-  keyCodeMap,
+  hashString,
+  splitLines,
+  countColumn,
+  findColumn,
+  detectLineSeparator,
   matching,
   movementKeys,
   positionEqual,
@@ -14,15 +27,24 @@ import {
 } from "./utils/helpers";
 import { javascriptParser } from "./mode/javascript/index.ts";
 import { Line } from "./editor/core/line.ts";
+import { LineTree } from "./editor/core/lineTree.ts";
 import { Timer } from "./utils/timer.ts";
 import { cssParser } from "./mode/css/index.ts";
 import { History } from "./editor/history/history.ts";
+import { Doc, replayChanges } from "./editor/core/doc.ts";
 import { SearchCursor } from "./editor/search/searchCursor.ts";
-
-// Counter to track nested operation depth.
-// Helps manage concurrent or nested editor operations.
-// Higher values indicate nested operation depth.
-let nestedOperation: number = 0;
+import {
+  Pass,
+  getKeyMap,
+  keyMaps,
+  keyName,
+  lookupKey,
+  nativeKeyCommands,
+  normalizeKeyMap,
+} from "./editor/input/keymap.ts";
+import { commands } from "./editor/input/commands.ts";
+import { vimKeyMap } from "./keymap/vim/index.ts";
+import { emacsKeyMap } from "./keymap/emacs/index.ts";
 
 export class AscendEditor {
   div: HTMLDivElement;
@@ -30,9 +52,36 @@ export class AscendEditor {
   code: HTMLDivElement;
   inputDiv: HTMLElement;
   cursor: HTMLSpanElement;
+  // Holds the cursors and highlights of the secondary selection ranges
+  selectionDiv: HTMLElement;
+  // Corners of the block selection being made with Alt-drag or Alt-Shift-arrows, in columns
+  blockSelection: {
+    anchor: { line: number; col: number };
+    head: { line: number; col: number };
+  } | null = null;
+  // Shows where dragged text will land, while something is dragged over the editor
+  dropCaret: HTMLElement | null = null;
+  // Keys typed so far of an unfinished key sequence, like "Ctrl-K", and the element that shows them
+  keySequence: string | null = null;
+  keySequenceDiv: HTMLElement | null = null;
+  keySequenceTimer = new Timer();
+  // Steps of the keyboard macro being recorded, and the macro recorded last
+  macroRecording: MacroStep[] | null = null;
+  macro: MacroStep[] | null = null;
+  // Set while a macro plays, so that its steps are not recorded again
+  macroPlaying: boolean = false;
   updates: { from: number; to: number; size: number; at: number }[] = [];
   space: ChildNode | null;
   changes: { from: number; to: number; diff?: number }[] = [];
+  // Text changes made during the current operation
+  textChanges: Change[] = [];
+  // Handlers registered through `on`
+  emitter: Emitter = new Emitter();
+  // Events waiting to be dispatched at the end of the current operation, null outside operations
+  pendingEvents: [string, any[]][] | null = null;
+  // Set by paste/cut events so that the next input read is attributed to them
+  pasteIncoming: boolean = false;
+  cutIncoming: boolean = false;
   // visible: ChildNode | null;
   showingFrom: number = 0;
   showingTo: number = 0;
@@ -42,9 +91,8 @@ export class AscendEditor {
   gutter: HTMLElement;
   mover: HTMLElement;
   selectionChanged: any;
-  lines: Array<Line>;
-  selection: { from: Position; to: Position; inverted?: boolean };
-  prevSelection: { from: Position; to: Position };
+  // Selection at the start of the current operation
+  prevSelection: SelectionState;
   focused: boolean = false;
   textChanged: boolean = false;
   editing: {
@@ -62,7 +110,41 @@ export class AscendEditor {
   blinker: number | null = null;
   linesShifted: boolean = false;
   updateInput: boolean | null = false;
-  work: number[] = []; // Array of line numbers to be highlighted
+  // The document being displayed. Lines, selection, history and highlighting state live on it.
+  doc: Doc;
+  static Doc = Doc;
+
+  get lines() {
+    return this.doc.lines;
+  }
+  set lines(lines: LineTree) {
+    this.doc.lines = lines;
+  }
+  get selection() {
+    return this.doc.selection;
+  }
+  set selection(sel: { from: Position; to: Position; inverted?: boolean }) {
+    this.doc.selection = sel;
+  }
+  get history() {
+    return this.doc.history;
+  }
+  set history(history: History | null) {
+    this.doc.history = history;
+  }
+  // Array of line numbers to be highlighted
+  get work() {
+    return this.doc.work;
+  }
+  set work(work: number[]) {
+    this.doc.work = work;
+  }
+
+  static commands = commands;
+  static keyMap = keyMaps;
+  static normalizeKeyMap = normalizeKeyMap;
+  static Pass = Pass;
+
   static parsers: { [name: string]: any } = {};
   static defaultParser: string | null = null;
   static addParser(name: string, parser: any) {
@@ -77,27 +159,41 @@ export class AscendEditor {
   // TODO: Change the type of parser
   parser: any; // The parser for syntax highlighting
   highlightTimeout: number | null = null;
-  history: History | null;
+  // Incremented for every operation, lets the history group the changes made by one operation
+  operationId: number = 0;
+  // Depth of nested `operation` calls. It is kept per editor, so that an operation of one editor that changes
+  // a linked document still runs a full operation in the editor showing that document.
+  nestedOperation: number = 0;
+  // Set while undo/redo restores a selection, so that it is not recorded as a new selection event
+  historyReplay: boolean = false;
 
   // Tracks currently highlighted brackets
   // Stores cleanup function to remove bracket highlighting
   bracketHighlighted: (() => any) | null = null;
 
-  public static defaults: { [key: string]: any } = {
-    value: "",
-    indentUnit: 2,
-    parser: null,
-    lineNumbers: false,
-    firstLineNumber: 1,
-    onChange: null,
-    onCursorActivity: null,
-    workTime: 200,
-    workDelay: 300,
-    undoDepth: 40,
-    readOnly: false,
-    tabIndex: null,
-    autoMatchBrackets: false,
-  };
+  // Default values of the options, filled by `defineOption`
+  public static defaults: { [key: string]: any } = {};
+  // Functions that apply a changed option value to an editor
+  public static optionHandlers: {
+    [key: string]: (editor: AscendEditor, value: any, old: any) => void;
+  } = {};
+
+  /**
+   * Registers an option. Plugins can use this to add their own options. Editors created before the option was
+   * defined take its default the first time it is read with `getOption` or changed with `setOption`, so plugins
+   * should read options they define late through `getOption` rather than from `options`.
+   * @param name - Name of the option.
+   * @param deflt - Value used when the option is not given.
+   * @param handler - Called when the option is changed through `setOption`.
+   */
+  static defineOption(
+    name: string,
+    deflt: any,
+    handler?: (editor: AscendEditor, value: any, old: any) => void
+  ) {
+    AscendEditor.defaults[name] = deflt;
+    if (handler) AscendEditor.optionHandlers[name] = handler;
+  }
   options: { [key: string]: any } = {};
 
   constructor(place: any, options: any) {
@@ -121,7 +217,8 @@ export class AscendEditor {
       '<div style="position: relative"><div style="position: absolute; visibility: hidden"><span>-</span></div>' +
       '<div style="overflow: hidden; position: absolute; width: 0">' +
       '<textarea style="position: absolute; width: 10000px;"></textarea></div>' +
-      '<span class="ascend-editor-cursor">&nbsp;</span><div class="ascend-editor-lines"></div></div></div></div>';
+      '<span class="ascend-editor-cursor">&nbsp;</span><div style="position: absolute; top: 0; left: 0"></div>' +
+      '<div class="ascend-editor-lines"></div></div></div></div>';
 
     if (place.appendChild) {
       place.appendChild(div);
@@ -137,12 +234,15 @@ export class AscendEditor {
       ?.firstChild as HTMLElement);
     const inputDiv = (this.inputDiv = measure.nextSibling as HTMLElement);
     const cursor = (this.cursor = inputDiv?.nextSibling as HTMLElement);
-    const lineDiv = (this.lineDiv = cursor?.nextSibling as HTMLElement);
+    const selectionDiv = (this.selectionDiv =
+      cursor?.nextSibling as HTMLElement);
+    const lineDiv = (this.lineDiv = selectionDiv.nextSibling as HTMLElement);
     const textarea = (this.input = inputDiv.firstChild as HTMLTextAreaElement);
 
     if (options.tabIndex != null) {
       this.input.tabIndex = options.tabIndex;
     }
+    code.style.tabSize = String(options.tabSize);
 
     if (!options.lineNumbers) {
       (gutter as HTMLElement).style.display = "none";
@@ -156,14 +256,14 @@ export class AscendEditor {
     this.poll = new Timer();
     this.highlight = new Timer();
 
-    this.lines = [new Line("")];
+    this.doc = new Doc();
+    this.doc.editor = this;
     this.setParser(this.options.parser);
 
-    this.history = new History();
+    this.history = new History(this.options.historyEventDelay);
     const zero = { line: 0, ch: 0 };
 
-    this.selection = { from: zero, to: zero, inverted: false };
-    this.prevSelection = { from: zero, to: zero };
+    this.prevSelection = { from: zero, to: zero, inverted: false };
 
     this.operation(() => {
       this.setValue(options.value || "");
@@ -182,19 +282,42 @@ export class AscendEditor {
       e.stop();
     });
 
-    connect(code, "scroll", () => this.updateDisplay());
+    connect(code, "scroll", () => {
+      this.updateDisplay();
+      this.signalLater("scroll", this);
+    });
     connect(window, "resize", () => this.updateDisplay());
 
     connect(code, "dblclick", this.operation(this.onDblClick));
 
     connect(code, "dragover", function (e) {
       e.stop();
+      const pos = self.posFromMouse(e);
+      self.showDropCaret(pos && self.clipPosition(pos));
+    });
+    connect(code, "dragleave", function () {
+      self.showDropCaret(null);
     });
     connect(code, "drop", this.operation(this.onDrop));
     connect(code, "paste", function (e) {
+      self.emitter.signal("paste", self, e.e);
+      if (e.e.defaultPrevented) return;
+
+      self.pasteIncoming = true;
       self.input.focus();
       self.fastPoll();
     });
+    connect(code, "copy", function (e) {
+      self.copySelections(e);
+    });
+    connect(code, "cut", function (e) {
+      if (self.copySelections(e)) {
+        self.operation(() => self.replaceSelection("", "start", "cut"))();
+        return;
+      }
+      self.cutIncoming = true;
+      self.fastPoll();
+    });
 
     connect(textarea, "keyup", this.operation(this.onKeyUp));
 
@@ -223,30 +346,40 @@ export class AscendEditor {
       to: 0,
     };
     this.reducedSelection = { anchor: 0 };
+
+    const keyMap = getKeyMap(options.keyMap);
+    if (keyMap.attach) this.operation(() => keyMap.attach!(this, null))();
   }
 
   setValue(code: string) {
+    const oldHistory = this.history;
+    // Keep the line endings of the new text, unless the lineSeparator option fixes them
+    this.doc.lineSep =
+      this.options.lineSeparator ||
+      detectLineSeparator(code) ||
+      this.doc.lineSep;
     this.history = null;
     let top = { line: 0, ch: 0 };
     this.replaceLines(
       top,
       {
         line: this.lines.length - 1,
-        ch: this.lines[this.lines.length - 1].text?.length!,
+        ch: this.lines.get(this.lines.length - 1).text?.length!,
       },
       code,
       top,
-      top
+      top,
+      "setValue"
     );
-    this.history = new History();
+    this.history = new History(this.options.historyEventDelay);
+    // Documents that shared the old history share the new one
+    this.doc.iterLinkedDocs((doc) => {
+      if (oldHistory && doc.history == oldHistory) doc.history = this.history;
+    });
   }
 
   getValue() {
-    let lines = [];
-    for (let i = 0; i < this.lines.length; i++) {
-      lines.push(this.lines[i].text);
-    }
-    return lines.join("\n");
+    return this.doc.getValue();
   }
 
   /**
@@ -255,6 +388,21 @@ export class AscendEditor {
    */
   onMouseDown(e: AsEvent) {
     let self = this;
+
+    // Clicks on the line numbers are reported, not turned into a selection
+    if (this.gutter.contains(e.target() as Node)) {
+      let top = eltOffset(this.gutter).top;
+      let y =
+        this.lines.heightAtLine(this.showingFrom) +
+        (e.e as MouseEvent).pageY -
+        top;
+      if (y >= 0 && y < this.lines.height) {
+        this.signalLater("gutterClick", this, this.lines.lineAtHeight(y), e.e);
+      }
+      e.stop();
+      return;
+    }
+
     // Reset the shiftselecting property
     this.shiftSelecting = null;
 
@@ -264,8 +412,34 @@ export class AscendEditor {
 
     if (!start) return;
 
-    // Set the cursor position and turn off double scroll/paste selection
-    this.setCursor(start.line, start.ch);
+    const mouse = e.e as MouseEvent;
+    // Pressing on the selected text starts dragging it
+    if (
+      e.button() == 1 &&
+      !mouse.altKey &&
+      mouse.detail < 2 &&
+      !this.options.readOnly &&
+      positionLess(this.selection.from, start) &&
+      positionLess(start, this.selection.to)
+    ) {
+      e.stop();
+      this.dragSelection(start);
+      return;
+    }
+
+    // Ctrl/Cmd-click adds a cursor, keeping the current selection as a secondary range. A plain click leaves
+    // only the new cursor.
+    // Alt-drag selects a block of columns
+    const blockAnchor = mouse.altKey
+      ? { line: start.line, col: this.mouseColumn(e, start) }
+      : null;
+    if (mouse.ctrlKey || mouse.metaKey) {
+      this.addSelection(start);
+    } else {
+      this.clearSecondarySelections();
+      // Set the cursor position and turn off double scroll/paste selection
+      this.setCursor(start.line, start.ch);
+    }
 
     // If the button pressed is not the left mouse button, return
     if (e.button() != 1) return;
@@ -275,6 +449,30 @@ export class AscendEditor {
     // Prevent the default event behavior
     e.stop();
 
+    // A double click selects a word, a triple click a line. Dragging afterwards extends the selection by
+    // whole words or lines.
+    const unit: "char" | "word" | "line" =
+      blockAnchor || mouse.detail < 2
+        ? "char"
+        : mouse.detail == 2
+          ? "word"
+          : "line";
+    const startRange = this.rangeAt(start, unit);
+    if (unit != "char") this.setSelection(startRange.from, startRange.to);
+
+    // Selects from the unit the drag started in to the one under the mouse
+    const extendTo = (pos: Position) => {
+      const range = this.rangeAt(pos, unit);
+      if (positionLess(range.from, startRange.from)) {
+        this.setSelection(startRange.to, range.from);
+      } else {
+        this.setSelection(
+          startRange.from,
+          positionLess(startRange.to, range.to) ? range.to : startRange.to
+        );
+      }
+    };
+
     const move = connect(
       window,
       "mousemove",
@@ -285,7 +483,16 @@ export class AscendEditor {
         // If the cursor position has changed, update the selection.
         if (!positionEqual(curr, last!)) {
           last = curr;
-          this.setSelection(this.clipPosition(start), curr);
+          if (blockAnchor) {
+            this.setBlockSelection(blockAnchor, {
+              line: curr.line,
+              col: this.mouseColumn(e, curr),
+            });
+          } else if (unit != "char") {
+            extendTo(curr);
+          } else {
+            this.setSelection(this.clipPosition(start), curr);
+          }
           this.updateInput = false;
         }
       }),
@@ -298,7 +505,14 @@ export class AscendEditor {
       this.operation((e: AsEvent) => {
         let curr = this.posFromMouse(e);
         // Set the final selection based on the start and end positions
-        if (curr) {
+        if (curr && blockAnchor) {
+          this.setBlockSelection(blockAnchor, {
+            line: curr.line,
+            col: this.mouseColumn(e, curr),
+          });
+        } else if (curr && unit != "char") {
+          extendTo(this.clipPosition(curr));
+        } else if (curr) {
           this.setSelection(start, curr);
         }
 
@@ -329,29 +543,194 @@ export class AscendEditor {
     }
   }
 
+  /**
+   * Drags the selected text with the mouse. Dropping it elsewhere moves the text, or copies it when Ctrl (Cmd
+   * on Mac) is held at the drop. Releasing the mouse without moving it is a normal click.
+   * @param start - Where the mouse was pressed, inside the selection.
+   */
+  dragSelection(start: Position) {
+    let moved = false;
+
+    const move = connect(
+      window,
+      "mousemove",
+      this.operation((e: AsEvent) => {
+        const pos = this.posFromMouse(e);
+        if (!pos || (!moved && positionEqual(pos, start))) return;
+        moved = true;
+        this.showDropCaret(this.clipPosition(pos));
+      }),
+      true
+    );
+
+    const up = connect(
+      window,
+      "mouseup",
+      this.operation((e: AsEvent) => {
+        move!();
+        up!();
+        this.showDropCaret(null);
+
+        const mouse = e.e as MouseEvent;
+        const pos = this.posFromMouse(e);
+        if (moved && pos) {
+          this.moveSelection(
+            this.clipPosition(pos),
+            mouse.ctrlKey || mouse.metaKey
+          );
+        } else if (mouse.ctrlKey || mouse.metaKey) {
+          this.addSelection(start);
+        } else {
+          this.clearSecondarySelections();
+          this.setCursor(start.line, start.ch);
+        }
+
+        this.input.focus();
+        this.updateInput = true;
+      }),
+      true
+    );
+  }
+
+  /**
+   * Moves or copies the text of the primary selection to another position, as a single undo step, and
+   * selects it at its new place. Moving the text into itself does nothing.
+   * @param pos - Where the text goes, in the document as it is before the move.
+   * @param copy - Whether to leave the original text in place.
+   */
+  moveSelection(pos: Position, copy: boolean) {
+    const from = copyPosition(this.selection.from);
+    const to = copyPosition(this.selection.to);
+    if (!copy && !positionLess(pos, from) && !positionLess(to, pos)) return;
+
+    const text = this.doc.getRange(from, to, "\n");
+    this.clearSecondarySelections();
+
+    this.withUndoGroup(() => {
+      let target = pos;
+      if (!copy) {
+        const removed = this.replaceLines(from, to, "", from, from, "drop");
+        // The position moves up when the removed text was before it
+        if (removed) {
+          target = adjustPos(pos, removed.from, removed.to, changeEnd(removed));
+        }
+      }
+      // Select the text as it was inserted, a beforeChange handler may have changed or canceled it
+      const inserted = this.replaceLines(
+        target,
+        target,
+        text,
+        target,
+        target,
+        "drop"
+      );
+      if (inserted) this.setSelection(inserted.from, changeEnd(inserted));
+    });
+  }
+
+  /**
+   * Shows the drop caret at a position, or hides it.
+   */
+  showDropCaret(pos: Position | null) {
+    if (!pos) {
+      this.dropCaret?.parentNode?.removeChild(this.dropCaret);
+      this.dropCaret = null;
+      return;
+    }
+
+    if (!this.dropCaret) {
+      this.dropCaret = document.createElement("span");
+      this.dropCaret.className =
+        "ascend-editor-cursor ascend-editor-drop-caret";
+      this.dropCaret.innerHTML = "&nbsp;";
+      this.selectionDiv.parentNode!.insertBefore(
+        this.dropCaret,
+        this.selectionDiv
+      );
+    }
+    this.dropCaret.style.top =
+      this.lines.heightAtLine(pos.line) -
+      this.lines.heightAtLine(this.showingFrom) +
+      "px";
+    this.dropCaret.style.left = this.charX(pos.line, pos.ch) + "px";
+  }
+
+  /**
+   * Double clicks are handled as the second click of `onMouseDown`, this only stops the browser from selecting
+   * text of its own.
+   */
   onDblClick(e: AsEvent) {
     let pos = this.posFromMouse(e);
     if (!pos) return;
-    // this.selectWordAt(this.posFromMouse(e));
     e.stop();
   }
 
-  selectWordAt(pos: Position) {
-    let line = this.lines[pos.line].text;
+  /**
+   * Tests whether a character is part of a word: a letter, a digit, "_", or one of the `wordChars` of the
+   * current parser, such as "-" in CSS or "$" in JavaScript.
+   */
+  isWordChar(ch: string) {
+    if (/\w/.test(ch)) return true;
+    // Letters outside ASCII
+    if (ch > "\x80" && ch.toUpperCase() != ch.toLowerCase()) return true;
+    return (
+      !!ch && !!this.parser?.wordChars && this.parser.wordChars.indexOf(ch) > -1
+    );
+  }
+
+  /**
+   * Finds the word around a position. Besides words, this also finds runs of whitespace or of other
+   * characters, so double clicking on punctuation selects it. A position at the end of a line takes the word
+   * before it.
+   */
+  wordAt(pos: Position): { from: Position; to: Position } {
+    const line = this.lines.get(pos.line).text!;
     let start = pos.ch;
     let end = pos.ch;
 
-    while (start > 0 && /\w/.test(line!.charAt(start - 1))) {
-      start--;
+    if (line) {
+      if (end == line.length) start--;
+      else end++;
+
+      const startChar = line.charAt(start);
+      const check = this.isWordChar(startChar)
+        ? (ch: string) => this.isWordChar(ch)
+        : /\s/.test(startChar)
+          ? (ch: string) => /\s/.test(ch)
+          : (ch: string) => !/\s/.test(ch) && !this.isWordChar(ch);
+
+      while (start > 0 && check(line.charAt(start - 1))) start--;
+      while (end < line.length && check(line.charAt(end))) end++;
     }
-    while (end < line!.length - 1 && /\w/.test(line!.charAt(end))) {
-      end++;
+
+    return {
+      from: { line: pos.line, ch: start },
+      to: { line: pos.line, ch: end },
+    };
+  }
+
+  /**
+   * Finds the range a mouse selection covers at a position: the position itself, the word around it, or its
+   * whole line including the line break.
+   */
+  rangeAt(pos: Position, unit: "char" | "word" | "line") {
+    if (unit == "word") return this.wordAt(pos);
+    if (unit == "line") {
+      const next = { line: pos.line + 1, ch: 0 };
+      return {
+        from: { line: pos.line, ch: 0 },
+        to:
+          next.line < this.lines.length
+            ? next
+            : { line: pos.line, ch: this.lines.get(pos.line).text!.length },
+      };
     }
+    return { from: pos, to: pos };
+  }
 
-    this.setSelection(
-      { line: pos.line, ch: start },
-      { line: pos.line, ch: end }
-    );
+  selectWordAt(pos: Position) {
+    const word = this.wordAt(pos);
+    this.setSelection(word.from, word.to);
   }
 
   /**
@@ -360,39 +739,124 @@ export class AscendEditor {
    * @param from - The starting line index to update (zero-based)
    * @param to - The ending line index to update
    * @param newText - Array of strings representing the new text content for each line
+   * @param origin - What caused the change. Stored in the history, where it decides which changes are merged,
+   * and reported with the change.
+   * @returns The change as it was applied, which a beforeChange handler may have rewritten, or false if a
+   * handler canceled it.
    */
   replaceLines(
     from: Position,
     to: Position,
     newText: string | string[],
     selFrom: Position,
-    selTo: Position
+    selTo: Position,
+    origin?: string
   ) {
-    if (typeof newText == "string") newText = newText.split(/\r?\n/g);
+    if (typeof newText == "string") newText = splitLines(newText);
 
-    // Handle undo history if enabled.
-    if (this.history) {
-      // Store the old content for undo operations.
-      let old: string[] = [];
-      for (let i = from.line; i < to.line + 1; i++) {
-        old.push(this.lines[i].text!);
+    // Give beforeChange handlers a chance to cancel or rewrite the change
+    if (
+      this.options.onBeforeChange ||
+      this.emitter.hasHandler("beforeChange")
+    ) {
+      const filtered = this.filterChange(from, to, newText, origin);
+
+      if (filtered.canceled) {
+        // Resync the input area, it may hold text that was never applied
+        this.updateInput = true;
+        return false;
       }
 
-      // Record the change in history
-      this.history.addChange(from.line, newText.length, old);
-      // Maintain history size limit by removing oldest changes
-      while (this.history.done.length > this.options.undoDepth) {
-        this.history.done.shift();
+      if (
+        !positionEqual(filtered.from, from) ||
+        !positionEqual(filtered.to, to) ||
+        filtered.text != newText
+      ) {
+        ({ from, to, text: newText } = filtered);
+        // The selection was computed for the original change, put the cursor after the new text instead
+        selFrom = selTo = changeEnd(filtered);
+        this.updateInput = true;
       }
     }
 
+    // Capture the selection before the lines change, so the history can restore it.
+    let selBefore = this.snapshotSelection();
+
     // Update the lines with new content.
-    this.updateLines(from, to, newText, selFrom, selTo);
+    let change = this.updateLines(
+      copyPosition(from),
+      copyPosition(to),
+      newText,
+      selFrom,
+      selTo,
+      origin
+    );
+
+    // Handle undo history if enabled.
+    if (this.history) {
+      // Record the exact range that was replaced along with the text it held.
+      this.history.addChange(
+        copyPosition(from),
+        copyPosition(to),
+        newText,
+        change.removed,
+        selBefore,
+        this.snapshotSelection(),
+        origin,
+        this.operationId
+      );
+      // Maintain history size limit by removing oldest changes
+      this.history.prune(this.options.undoDepth);
+    }
+
+    return change;
+  }
+
+  /**
+   * Runs the beforeChange handler for a change that is about to be made.
+   * @param from - Start of the range to replace.
+   * @param to - End of the range to replace.
+   * @param text - Lines to insert.
+   * @param origin - What caused the change.
+   * @returns The change as the handler left it.
+   */
+  filterChange(
+    from: Position,
+    to: Position,
+    text: string[],
+    origin?: string
+  ): BeforeChange {
+    const change: BeforeChange = {
+      from: copyPosition(from),
+      to: copyPosition(to),
+      text,
+      origin,
+      canceled: false,
+      cancel: () => {
+        change.canceled = true;
+      },
+      update: (from, to, text) => {
+        if (from) change.from = this.clipPosition(copyPosition(from));
+        if (to) change.to = this.clipPosition(copyPosition(to));
+        if (text != null) {
+          change.text =
+            typeof text == "string" ? splitLines(text) : text.slice();
+        }
+        if (positionLess(change.to, change.from)) {
+          [change.from, change.to] = [change.to, change.from];
+        }
+      },
+    };
+
+    if (this.options.onBeforeChange) this.options.onBeforeChange(this, change);
+    // Handlers run in turn, each one sees the change as the previous one left it
+    this.emitter.signal("beforeChange", this, change);
+    return change;
   }
 
   // UpdatesLines1
   /**
-   * Updates the lines array and associated DIVs based on the changes.
+   * Applies a change to the document and updates the display state and selection for it.
    *
    * This function is the core of the editor's update mechanism. It takes a range of lines (`from` to `to`) and replaces
    * them with new text (`newText`). It also handles updating the DOM to reflect these changes, and adjusts the cursor position if necessary.
@@ -402,95 +866,31 @@ export class AscendEditor {
    * @param newText - An array of strings representing the new text to insert. Each string in the array corresponds to a line.
    * @param selFrom - The new starting position of the selection ater the update.
    * @param selTo - The new ending position of the selection after the update.
+   * @param origin - What caused the change.
+   * @returns The applied change, including the text it removed.
    */
   updateLines(
     from: Position,
     to: Position,
-    newText: string[] | string,
+    newText: string[],
     selFrom: Position,
-    selTo: Position
-  ) {
-    // Calculate the number of lines being replaced.
-    let nLines = to.line - from.line;
-    let firstLine = this.lines[from.line];
-    let lastLine = this.lines[to.line];
-
-    // Case 1: The change is within a single line.
-    if (from.line == to.line) {
-      if (newText.length == 1) {
-        // Simple replacement within a single line.
-        firstLine.replace(from.ch, to.ch, newText[0]);
-      } else {
-        // Split current line and insert multiple lines
-        let lastLine = firstLine.split(to.ch, newText[newText.length - 1]);
-        // Prepare arguments for splice.
-        let spliceArgs: Line[] = [];
-
-        // Replace the start of the line.
-        firstLine.replace(from.ch, firstLine.text?.length!, newText[0]);
-
-        // Insert new lines between first and last
-        for (let i = 1; i < newText.length - 1; i++) {
-          spliceArgs.push(new Line(newText[i]));
-        }
-        // Add the split last line
-        spliceArgs.push(lastLine);
-
-        // Update the lines array
-        this.lines.splice.apply(this.lines, [
-          from.line + 1,
-          nLines,
-          ...spliceArgs,
-        ]);
-      }
-    }
-    // Case 2: Multiple lines replaced with single line (i.e The change spans multiple lines, but only one new line is inserted.)
-    else if (newText.length == 1) {
-      // Join first line's start with last last line's end
-      firstLine.replace(
-        from.ch,
-        firstLine.text?.length!,
-        newText[0] + lastLine.text?.slice(to.ch)
-      );
-
-      // Remove the lines in between
-      this.lines.splice(from.line + 1, nLines);
-    }
-    // Case 3: Multiple lines replaced with mutliple lines
-    else {
-      let spliceArgs: Line[] = [];
-      // Update the fist and last lines
-      firstLine.replace(from.ch, firstLine.text?.length!, newText[0]);
-      lastLine.replace(0, to.ch, newText[newText.length - 1]);
-
-      // Insert new lines in between
-      for (let i = 1; i < newText.length - 1; i++) {
-        spliceArgs.push(new Line(newText[i]));
-      }
-
-      this.lines.splice.apply(this.lines, [
-        from.line + 1,
-        nLines - 1,
-        ...spliceArgs,
-      ]);
-    }
-
-    // Update work queue for syntax highlighting
-    let newWork = [];
-    let lenDiff = newText.length - nLines - 1;
-
-    for (let i = 0; i < this.work.length; i++) {
-      let task = this.work[i];
-      if (task < from.line) {
-        newWork.push(task);
-      } else if (task > to.line) {
-        newWork.push(task + lenDiff);
-      }
-    }
+    selTo: Position,
+    origin?: string
+  ): Change {
+    // Record the change before the lines are modified, while the removed text is still there.
+    let change: Change = {
+      from: copyPosition(from),
+      to: copyPosition(to),
+      text: newText,
+      removed: this.doc.textBetween(from, to),
+      origin,
+    };
+    this.textChanges.push(change);
 
-    // Add modified line to work queue
-    if (newText.length) newWork.push(from.line);
-    this.work = newWork;
+    // Change the lines in the document model
+    let lenDiff = this.doc.updateLines(from, to, newText);
+    // Show the change in linked documents, unless it came from one of them
+    if (!this.doc.applyingLinked) this.doc.propagateChange(change);
 
     // Schedule syntax highlighting
     this.startWorker(100);
@@ -516,8 +916,9 @@ export class AscendEditor {
       updateLine(this.selection.to.line)
     );
 
-    (this.space as HTMLElement).style.height =
-      this.lines.length * this.lineHeight() + "px";
+    (this.space as HTMLElement).style.height = this.lines.height + "px";
+
+    return change;
   }
 
   /**
@@ -528,59 +929,376 @@ export class AscendEditor {
    * @param on - A boolean value indicating the desired state of line numbers.
    */
   setLineNumbers(on: boolean) {
-    this.options.lineNumbers = on;
-    this.gutter.style.display = on ? "" : "none";
-    if (on) this.updateGutter();
+    this.setOption("lineNumbers", on);
   }
 
   /**
-   * Helper function for implementing undo/redo in the editor. Handles the process of
-   * reverting or reapplying text changes by managing the change stacks.
-   * @param from - The source stack to pop changes from (either done or undone stack)
-   * @param to - The destination stack to push reversed changes to
+   * Changes an option and runs its handler, so the editor reflects the new value right away.
+   * @param name - Name of the option.
+   * @param value - The new value.
    */
-  unredoHelper(from: Change[], to: Change[]) {
-    // Pop the most recent change from the source stack.
-    const change = from.pop();
+  setOption(name: string, value: any) {
+    const old = this.getOption(name);
+    if (old === value && name != "value") return;
 
-    if (change) {
-      // Array to store the text that will be replaced.
-      const replaced: string[] = [];
-      // Calculate the end position of the change.
-      const end = change.start + change.added;
+    this.options[name] = value;
+    const handler = AscendEditor.optionHandlers[name];
+    if (!handler) return;
+    try {
+      handler(this, value, old);
+    } catch (e) {
+      // A value the handler rejected must not stay set
+      this.options[name] = old;
+      throw e;
+    }
+  }
 
-      // Store the current text that will be replaced.
-      for (let i = change.start; i < end; i++) {
-        replaced.push(this.lines[i].text!);
-      }
+  /**
+   * @param name - Name of the option.
+   * @returns The current value of the option.
+   */
+  getOption(name: string) {
+    // Options defined after this editor was created start at their default
+    if (
+      !this.options.hasOwnProperty(name) &&
+      AscendEditor.defaults.hasOwnProperty(name)
+    ) {
+      this.options[name] = AscendEditor.defaults[name];
+    }
+    return this.options[name];
+  }
+
+  /**
+   * Throws away all highlighting state and starts highlighting the document again from the top.
+   */
+  rehighlight() {
+    // Reset state for all lines
+    for (let i = 0; i < this.lines.length; i++) {
+      this.lines.get(i).stateAfter = null;
+    }
+
+    // Reset work queue to start highlighting from beginning.
+    this.work = [0];
+    this.startWorker(this.options.workDelay);
+  }
+
+  /**
+   * Applies a change that was made in a linked document (see `Doc.linkedDoc`). The beforeChange hook is
+   * skipped, the other document already holds the change. It is recorded in the history unless the two
+   * documents share one.
+   * @param change - The change, in the lines of this document.
+   * @param sharedHist - Whether the history already has the change.
+   */
+  applyLinkedChange(change: Change, sharedHist: boolean) {
+    // The change is an undo step of its own, even when it arrives during an operation of this editor
+    this.operationId++;
+    const end = changeEnd(change);
+    const selBefore = this.snapshotSelection();
+
+    this.updateLines(
+      change.from,
+      change.to,
+      change.text,
+      adjustPos(this.selection.from, change.from, change.to, end),
+      adjustPos(this.selection.to, change.from, change.to, end),
+      change.origin
+    );
+
+    if (!sharedHist && this.history) {
+      this.history.addChange(
+        change.from,
+        change.to,
+        change.text,
+        change.removed,
+        selBefore,
+        this.snapshotSelection(),
+        change.origin,
+        this.operationId
+      );
+      this.history.prune(this.options.undoDepth);
+    }
+  }
+
+  /**
+   * Helper function for implementing undo/redo in the editor. Applies the changes of a history event, or their
+   * inverses (last change first) when reverting it, and restores the selection from the matching side of the event.
+   * @param event - The event to apply or revert.
+   * @param reverse - Whether the event is being reverted (undo) or re-applied (redo).
+   */
+  unredoHelper(event: HistoryEvent, reverse: boolean) {
+    for (const change of replayChanges(event, reverse)) {
+      // Place the cursor at the end of the applied text.
+      const pos = changeEnd(change);
 
-      let pos = {
-        line: change.start + change.old.length - 1,
-        ch: editEnd(
-          replaced[replaced.length - 1],
-          change.old[change.old.length - 1]
-        ),
-      };
-      // Apply the old text from the change record.
       this.updateLines(
-        {
-          line: change.start,
-          ch: 0,
-        },
-        { line: end - 1, ch: this.lines[end - 1].text?.length! },
-        change.old,
+        change.from,
+        change.to,
+        change.text,
         pos,
-        pos
+        pos,
+        reverse ? "undo" : "redo"
       );
     }
+
+    this.restoreSelection(reverse ? event.selBefore : event.selAfter);
   }
 
   undo() {
-    this.unredoHelper(this.history?.done!, this.history?.undone!);
+    const event = this.history?.undoEvent();
+    if (event) this.unredoHelper(event, true);
   }
 
   redo() {
-    this.unredoHelper(this.history?.undone!, this.history?.done!);
+    const event = this.history?.redoEvent();
+    if (event) this.unredoHelper(event, false);
+  }
+
+  /**
+   * Moves the document to any state in the undo tree by undoing up to the common ancestor and redoing down
+   * the target's branch.
+   * @param id - Id of the history node to jump to.
+   * @returns False if there is no such node.
+   */
+  jumpToHistory(id: number) {
+    const history = this.history;
+    const route = history?.route(id);
+    if (!history || !route) return false;
+
+    for (let i = 0; i < route.undo; i++) this.undo();
+    for (const node of route.redo) {
+      const event = history.redoEvent(node);
+      if (event) this.unredoHelper(event, false);
+    }
+    return true;
+  }
+
+  /**
+   * Moves the document to the state it was in at a given time.
+   * @param time - Timestamp in milliseconds.
+   */
+  undoToTime(time: number) {
+    if (!this.history) return;
+    this.jumpToHistory(this.history.nodeAtTime(time).id);
+  }
+
+  /**
+   * Steps back in wall-clock time, across branches.
+   * @param ms - How far back to go from the time of the current state.
+   */
+  historyEarlier(ms: number) {
+    if (!this.history) return;
+    this.undoToTime(this.history.current.time - ms);
+  }
+
+  /**
+   * Steps forward in wall-clock time, across branches.
+   * @param ms - How far forward to go from the time of the current state.
+   */
+  historyLater(ms: number) {
+    if (!this.history) return;
+    this.undoToTime(this.history.current.time + ms);
+  }
+
+  /**
+   * @returns The document currently displayed.
+   */
+  getDoc() {
+    return this.doc;
+  }
+
+  /**
+   * Displays another document. The current document keeps its undo history, selection, highlighting and
+   * scroll position, and can be swapped back in later.
+   * @param doc - The document to display.
+   * @returns The document that was displayed before.
+   * @throws Error if the document is displayed by another editor.
+   */
+  swapDoc(doc: Doc) {
+    const old = this.doc;
+    if (doc == old) return old;
+    if (doc.editor) {
+      throw new Error("The document is already displayed by another editor");
+    }
+
+    // Bracket highlights are marks on the old document's lines
+    if (this.bracketHighlighted) {
+      this.bracketHighlighted();
+      this.bracketHighlighted = null;
+    }
+
+    old.scrollTop = this.code.scrollTop;
+    old.scrollLeft = this.code.scrollLeft;
+    old.editor = null;
+
+    // Selection state kept by the editor itself belongs to the old document's lines
+    this.blockSelection = null;
+    this.shiftSelecting = null;
+    this.reducedSelection = null;
+
+    this.doc = doc;
+    doc.editor = this;
+    if (doc.history) doc.history.eventDelay = this.options.historyEventDelay;
+    if (this.options.lineSeparator) {
+      doc.setLineSeparator(this.options.lineSeparator);
+    }
+
+    // Keep highlighting with the document's own parser, or highlight it with the editor's
+    if (doc.parser && AscendEditor.parsers[doc.parser]) {
+      this.parser = AscendEditor.parsers[doc.parser];
+      this.options.parser = doc.parser;
+    } else {
+      this.setParser(this.options.parser);
+    }
+
+    // Rebuild the display from scratch for the new lines
+    this.showingFrom = this.showingTo = 0;
+    this.lineDiv.innerHTML = "";
+    (this.space as HTMLElement).style.height = this.lines.height + "px";
+    this.code.scrollTop = doc.scrollTop;
+    this.code.scrollLeft = doc.scrollLeft;
+    this.changes.push({ from: 0, to: this.lines.length });
+    this.updateInput = true;
+    this.startWorker(this.options.workDelay);
+
+    return old;
+  }
+
+  /**
+   * Serializes the undo history so it can be stored and restored with `setHistory`, for example across page
+   * loads. The result is plain JSON data.
+   */
+  getHistory(): SerializedHistory | null {
+    if (!this.history) return null;
+    return {
+      ...this.history.serialize(),
+      lines: this.lines.length,
+      checksum: hashString(this.doc.getValue("\n")),
+    };
+  }
+
+  /**
+   * Restores an undo history produced by `getHistory`. The document must hold the same text it had when the
+   * history was saved.
+   * @param data - The serialized history, as an object or a JSON string.
+   * @throws Error if the data is malformed or belongs to a different document.
+   */
+  setHistory(data: SerializedHistory | string) {
+    if (typeof data == "string") data = JSON.parse(data) as SerializedHistory;
+    if (typeof data != "object" || !data) {
+      throw new Error("Invalid history: not an object");
+    }
+
+    if (
+      data.lines != this.lines.length ||
+      data.checksum != hashString(this.doc.getValue("\n"))
+    ) {
+      throw new Error("History does not match the current document");
+    }
+
+    const history = History.deserialize(data);
+    history.eventDelay = this.options.historyEventDelay;
+    history.prune(this.options.undoDepth);
+    this.history = history;
+  }
+
+  /**
+   * Runs a function and records every change it makes as a single undo step, even across operations.
+   * @param f - The function to run.
+   * @returns The function's return value.
+   */
+  withUndoGroup<T>(f: () => T): T {
+    const history = this.history;
+    history?.startGroup();
+    try {
+      return this.operation(f)();
+    } finally {
+      history?.endGroup();
+    }
+  }
+
+  /**
+   * Marks the current state of the document as clean, e.g. after it was saved.
+   */
+  markClean() {
+    this.history?.markClean();
+  }
+
+  /**
+   * Checks whether the document is in the state it was last marked clean in, or in the state identified by a
+   * generation. Undoing back to that state makes the document clean again.
+   * @param generation - A value returned by `changeGeneration`.
+   */
+  isClean(generation?: number) {
+    return this.history ? this.history.isClean(generation) : true;
+  }
+
+  /**
+   * Returns an id for the current state of the document, which can later be passed to `isClean`.
+   */
+  changeGeneration() {
+    return this.history ? this.history.changeGeneration() : 0;
+  }
+
+  /**
+   * Discards all undo history.
+   */
+  clearHistory() {
+    this.history = new History(this.options.historyEventDelay);
+  }
+
+  /**
+   * Undoes the last cursor movement or selection change. Falls back to a regular undo when there are no
+   * movements left since the last change.
+   */
+  undoSelection() {
+    const history = this.history;
+    if (!history) return;
+
+    const event = history.selDone.pop();
+    if (!event) return this.undo();
+
+    history.selUndone.push(event);
+    this.restoreSelection(event.before);
+  }
+
+  /**
+   * Redoes the last undone cursor movement, or falls back to a regular redo.
+   */
+  redoSelection() {
+    const history = this.history;
+    if (!history) return;
+
+    const event = history.selUndone.pop();
+    if (!event) return this.redo();
+
+    history.selDone.push(event);
+    this.restoreSelection(event.after);
+  }
+
+  /**
+   * Returns a copy of the current selection that is safe to store.
+   */
+  snapshotSelection(): SelectionState {
+    return {
+      from: copyPosition(this.selection.from),
+      to: copyPosition(this.selection.to),
+      inverted: !!this.selection.inverted,
+    };
+  }
+
+  /**
+   * Puts back a selection recorded in the history, including its direction.
+   * @param sel - The selection to restore.
+   */
+  restoreSelection(sel: SelectionState) {
+    this.shiftSelecting = null;
+    this.setSelection(
+      this.clipPosition(copyPosition(sel.from)),
+      this.clipPosition(copyPosition(sel.to))
+    );
+    this.selection.inverted = sel.inverted;
+    this.historyReplay = true;
+    this.updateInput = true;
   }
 
   /**
@@ -591,6 +1309,11 @@ export class AscendEditor {
    */
   onDrop(e: AsEvent) {
     const event = e.e as DragEvent;
+    this.showDropCaret(null);
+
+    // Let drop handlers take over the drop by preventing its default
+    this.emitter.signal("drop", this, event);
+    if (event.defaultPrevented) return;
 
     // Get drop position and file data
     const pos = this.posFromMouse(e);
@@ -617,7 +1340,8 @@ export class AscendEditor {
             this.replaceRange(
               text.join(""), // Concat all file contents
               this.clipPosition(pos),
-              this.clipPosition(pos)
+              this.clipPosition(pos),
+              "drop"
             );
           }
         };
@@ -640,7 +1364,7 @@ export class AscendEditor {
         const text = event.dataTransfer?.getData("Text");
 
         if (text) {
-          this.replaceRange(text, pos, pos);
+          this.replaceRange(text, pos, pos, "drop");
         }
       } catch (err) {}
     }
@@ -657,74 +1381,246 @@ export class AscendEditor {
     }
   }
 
-  onKeyDown(e: AsEvent) {
-    // Regain focus if the editor is'nt focused yet
-    if (!this.focused) this.onFocus();
+  onKeyDown(e: AsEvent) {
+    // Regain focus if the editor is'nt focused yet
+    if (!this.focused) this.onFocus();
+
+    const event = e.e as KeyboardEvent;
+
+    // Keydown handlers can stop the editor from handling a key by preventing its default
+    this.emitter.signal("keydown", this, event);
+    if (event.defaultPrevented) return;
+
+    // Text typed before this key goes into the macro first
+    if (this.macroRecording) this.readInput();
+
+    const name = keyName(event);
+    if (name && this.handleKeyBinding(name)) {
+      e.stop();
+      return;
+    }
+
+    // Keys left to the browser are recorded as the commands that do the same
+    if (name && this.macroRecording) {
+      const shift = /^Shift-/.test(name);
+      const command = nativeKeyCommands[name.replace(/^Shift-/, "")];
+      if (command) {
+        this.recordMacroStep(shift ? { command, shift } : { command });
+      }
+    }
+
+    // Handle shift key (for shift selecting)
+    if (event.shiftKey) {
+      this.shiftSelecting = this.selection.inverted
+        ? this.selection.to
+        : this.selection.from;
+    }
+
+    if (this.selection.inverted && name && movementKeys[name]) {
+      const range = this.selRange(this.input);
+      if (range) {
+        this.reducedSelection = { anchor: range.start };
+        this.setSelRange(this.input, range.start, range.start);
+      }
+    }
+
+    this.fastPoll(20, name ?? undefined);
+  }
+
+  /**
+   * Looks up a key in the `extraKeys` option and then in the `keyMap` option, and runs the command it is bound to.
+   * @param name - Normalized key name, as computed by `keyName`.
+   * @returns Whether a binding handled the key.
+   */
+  handleKeyBinding(name: string) {
+    const maps = [this.options.extraKeys, this.options.keyMap];
+    const prefix = this.keySequence;
+    const sequence = prefix ? prefix + " " + name : name;
+    if (prefix) this.setKeySequence(null);
+
+    for (const map of maps) {
+      if (!map) continue;
+      const result = lookupKey(
+        sequence,
+        map,
+        (binding) => {
+          const command =
+            typeof binding == "string"
+              ? AscendEditor.commands[binding]
+              : binding;
+          const recording = this.macroRecording;
+          if (!command || command(this) === Pass) return false;
+
+          // Commands that start or stop the recording are not part of it
+          if (recording && recording == this.macroRecording) {
+            this.recordMacroStep(
+              typeof binding == "string"
+                ? { command: binding }
+                : { key: sequence }
+            );
+          }
+          return true;
+        },
+        this
+      );
+
+      if (result == "multi") {
+        this.setKeySequence(sequence);
+        return true;
+      }
+      if (result) return result == "handled";
+    }
+
+    // A key that doesn't complete the sequence cancels it, and is swallowed with it
+    return !!prefix;
+  }
+
+  /**
+   * Starts waiting for the rest of a key sequence, or stops waiting. The keys typed so far are shown in the
+   * editor, and a "prefixWaiting" event tells about them, with null when the sequence is finished or canceled.
+   * Waiting stops by itself after the `keySequenceTimeout` option's milliseconds.
+   * @param sequence - The keys typed so far, or null.
+   */
+  setKeySequence(sequence: string | null) {
+    if (sequence == this.keySequence) return;
+    this.keySequence = sequence;
+    this.keySequenceTimer.clear();
+
+    if (sequence) {
+      if (!this.keySequenceDiv) {
+        this.keySequenceDiv = this.div.appendChild(
+          document.createElement("div")
+        );
+        this.keySequenceDiv.className = "ascend-editor-key-sequence";
+      }
+      this.keySequenceDiv.textContent = sequence + " \u2026";
+      this.keySequenceDiv.style.display = "";
+
+      const timeout = this.options.keySequenceTimeout;
+      if (timeout) {
+        this.keySequenceTimer.set(timeout, () => this.setKeySequence(null));
+      }
+    } else if (this.keySequenceDiv) {
+      this.keySequenceDiv.style.display = "none";
+    }
+
+    this.signalLater("prefixWaiting", this, sequence);
+  }
+
+  /**
+   * Runs a command from `AscendEditor.commands` on this editor.
+   * @param name - Name of the command.
+   * @returns The command's result, or undefined when there is no such command.
+   */
+  execCommand(name: string) {
+    if (AscendEditor.commands.hasOwnProperty(name)) {
+      return AscendEditor.commands[name](this);
+    }
+  }
+
+  /**
+   * Starts recording a keyboard macro. Commands run by keys, keys the browser handles, such as arrows and
+   * Backspace, and typed text are recorded until `stopMacroRecording`. A recording in progress starts over.
+   */
+  startMacroRecording() {
+    this.macroRecording = [];
+  }
+
+  /**
+   * Stops recording, and keeps the recorded macro for `replayMacro` and `getMacro`.
+   * @returns The recorded steps, or null when no macro was being recorded.
+   */
+  stopMacroRecording() {
+    if (!this.macroRecording) return null;
+    // Text typed last is still in the input
+    this.readInput();
+    this.macro = this.macroRecording;
+    this.macroRecording = null;
+    return this.macro;
+  }
+
+  /**
+   * Adds a step to the macro being recorded, if any.
+   */
+  recordMacroStep(step: MacroStep) {
+    if (this.macroRecording && !this.macroPlaying) {
+      this.macroRecording.push(step);
+    }
+  }
+
+  /**
+   * Plays a keyboard macro, as one undo step.
+   * @param times - How many times to play it.
+   * @param macro - The steps to play, by default the macro recorded last.
+   * @returns False when there is no macro, or while a macro is being recorded or played.
+   */
+  replayMacro(times: number = 1, macro: MacroStep[] | null = this.macro) {
+    if (!macro || this.macroRecording || this.macroPlaying) return false;
 
-    const event = e.e as KeyboardEvent;
+    this.macroPlaying = true;
+    // Movement steps only extend the selection when they were recorded with Shift or after a mark
+    this.shiftSelecting = null;
+    try {
+      this.withUndoGroup(() => {
+        for (let i = 0; i < times; i++) {
+          for (const step of macro) this.playMacroStep(step);
+        }
+        // A macro can end halfway through a key sequence
+        this.setKeySequence(null);
+      });
+    } finally {
+      this.macroPlaying = false;
+    }
+    return true;
+  }
 
-    const key = event.key;
-    const ctrl = event.ctrlKey && !event.altKey;
-    let done = false;
-
-    // Handle page up/down keys
-    if (key === "PageUp" || key === "PageDown") {
-      this.scrollPage(key === "PageDown");
-      done = true;
-
-      // Handle ctrl-home/end keys
-    } else if (ctrl && (key === "Home" || key === "End")) {
-      this.scrollEnd(key === "Home");
-      done = true;
-
-      // Handle ctrl-a (select all)
-    } else if (ctrl && key === "a") {
-      this.selectAll();
-      done = true;
-      //
-      // Handle shift key (for shift selecting)
-    } else if (event.shiftKey) {
+  playMacroStep(step: MacroStep) {
+    if ("text" in step) {
+      this.replaceSelection(step.text, "end", "+input");
+    } else if ("key" in step) {
+      this.handleKeyBinding(step.key);
+    } else if (step.shift) {
       this.shiftSelecting = this.selection.inverted
         ? this.selection.to
         : this.selection.from;
-    } else if (!this.options.readOnly) {
-      if (!ctrl && key === "Enter") {
-        this.insertNewLine();
-        done = true;
-      } else if (!ctrl && key === "Tab") {
-        this.handleTab();
-        done = true;
-      } else if (ctrl && key === "z") {
-        this.undo();
-        done = true;
-      } else if (
-        (ctrl && event.shiftKey && key === "z") ||
-        (ctrl && key === "y")
-      ) {
-        this.redo();
-        done = true;
-      }
-    }
-
-    if (done) {
-      e.stop();
-      return;
+      this.execCommand(step.command);
+      this.shiftSelecting = null;
+    } else {
+      this.execCommand(step.command);
     }
+  }
 
-    // Handle other keys
-    let id = (ctrl ? "c" : "") + key;
-
-    if (this.selection.inverted && movementKeys[id]) {
-      const range = this.selRange(this.input);
-      if (range) {
-        this.reducedSelection = { anchor: range.start };
-        this.setSelRange(this.input, range.start, range.start);
-      }
-    }
+  /**
+   * Returns the macro recorded last as plain JSON data, which `setMacro` loads again.
+   */
+  getMacro(): MacroStep[] | null {
+    return this.macro && this.macro.map((step) => ({ ...step }));
+  }
 
-    this.fastPoll(20, id);
+  /**
+   * Loads a macro produced by `getMacro`, to be played by `replayMacro`.
+   * @param data - The macro, as an array of steps or a JSON string.
+   * @throws Error if the data is not a list of macro steps.
+   */
+  setMacro(data: MacroStep[] | string) {
+    const steps: unknown = typeof data == "string" ? JSON.parse(data) : data;
+
+    const valid =
+      Array.isArray(steps) &&
+      steps.every(
+        (step: unknown) =>
+          typeof step == "object" &&
+          step != null &&
+          (("text" in step && typeof step.text == "string") ||
+            ("key" in step && typeof step.key == "string") ||
+            ("command" in step && typeof step.command == "string"))
+      );
+    if (!valid) throw new Error("Not a keyboard macro");
+    this.macro = (steps as MacroStep[]).map((step) => ({ ...step }));
   }
+
   onFocus() {
+    if (!this.focused) this.signalLater("focus", this);
     this.focused = true;
     // this.displaySelection();
     this.slowPoll();
@@ -734,7 +1630,9 @@ export class AscendEditor {
   }
 
   onBlur() {
+    if (this.focused) this.signalLater("blur", this);
     this.shiftSelecting = null;
+    this.setKeySequence(null);
     this.focused = false;
     // this.displaySelection();
     this.div.className = this.div.className.replace(
@@ -776,8 +1674,7 @@ export class AscendEditor {
       let state = self.readInput();
 
       if (state === "moved" && key) {
-        const keyId = keyCodeMap[key!];
-        movementKeys[keyId] = true;
+        movementKeys[key] = true;
       }
 
       // If the input read was successfull (returned a truthy value)
@@ -969,16 +1866,77 @@ export class AscendEditor {
       newLine = this.editing.text.lastIndexOf("\n", edEnd - 1);
       let endCh = newLine == -1 ? edEnd : edEnd - newLine - 1;
 
+      // Attribute the change: pasting and cutting are flagged by their events, anything else is typing
+      // or deleting.
+      let inserted = text.slice(start, end);
+      let origin = this.pasteIncoming
+        ? "paste"
+        : this.cutIncoming
+          ? "cut"
+          : inserted
+            ? "+input"
+            : "+delete";
+      if (inserted) this.recordMacroStep({ text: inserted });
+
+      // Pasting as many lines as there are selection ranges puts one line in each range, which is how a
+      // copied block selection is pasted back as a block
+      let secondaryTexts: string[] | null = null;
+      if (origin == "paste" && this.doc.secondary.length) {
+        const pasted = splitLines(inserted);
+        const ranges = this.doc.listSelections();
+        if (pasted.length == ranges.length) {
+          const index = ranges.findIndex((range) =>
+            positionEqual(range.from, sel.from)
+          );
+          secondaryTexts = pasted.filter((_, i) => i != index);
+          inserted = pasted[index];
+          from = to = changeEnd({
+            from: { line: line, ch: ch },
+            text: [inserted],
+          });
+          this.updateInput = true;
+        }
+      }
+
+      // Typing and deleting happen at every cursor. Measure how far the change reaches before and after the
+      // primary selection, so the same reach can be applied around the secondary ranges.
+      let reach = null;
+      if (this.doc.secondary.length) {
+        reach = {
+          before: Math.max(
+            0,
+            this.doc.indexFromPos(sel.from) -
+              this.doc.indexFromPos({ line: line, ch: ch })
+          ),
+          after: Math.max(
+            0,
+            this.doc.indexFromPos({ line: endLine, ch: endCh }) -
+              this.doc.indexFromPos(sel.to)
+          ),
+        };
+      }
+
       // Update the text content with the identified change boundaries
-      this.replaceLines(
+      const applied = this.replaceLines(
         { line: line, ch: ch },
         { line: endLine, ch: endCh },
-        text.slice(start, end),
+        inserted,
         from,
-        to
+        to,
+        origin
       );
+      if (applied && reach) {
+        this.replaceAtSecondary(
+          secondaryTexts || inserted,
+          reach.before,
+          reach.after,
+          origin
+        );
+      }
+      this.blockSelection = null;
 
       this.shiftSelecting = null;
+      this.pasteIncoming = this.cutIncoming = false;
 
       // Handle input state
       // Force input state if:
@@ -988,6 +1946,19 @@ export class AscendEditor {
         this.updateInput = true;
       }
     } else {
+      // Cursors follow a sideways move of the primary cursor. Any other move leaves only the primary selection.
+      if (this.doc.secondary.length) {
+        if (
+          positionEqual(sel.from, sel.to) &&
+          positionEqual(from, to) &&
+          from.line == sel.from.line
+        ) {
+          this.moveSecondaryCursors(from.ch - sel.from.ch);
+        } else {
+          this.clearSecondarySelections();
+        }
+      }
+
       // Update the selection based on new start and end positions.
       this.setSelection(from, to);
     }
@@ -1065,16 +2036,21 @@ export class AscendEditor {
    */
   updateDisplay(changes?: { from: number; to: number; diff?: number }[]) {
     if (!this.code.clientWidth) return;
-    // Get line height and calculate visible line range
+    // Keep the heights in the line tree in sync with the measured line height
     let lh = this.lineHeight();
+    if (lh != this.lines.lineHeight) {
+      this.lines.setLineHeight(lh);
+      (this.space as HTMLElement).style.height = this.lines.height + "px";
+    }
 
     // Calculate first visible line based on scroll position
     let top = this.code.scrollTop - (this.space as HTMLElement).offsetTop;
-    let visibleFrom = Math.max(0, Math.floor(top / lh));
+    let visibleFrom = this.lines.lineAtHeight(Math.max(0, top));
 
     // Calculate last visible line based on viewport height
-    let visibleTo = Math.floor(
-      Math.min(this.lines.length, (top + this.div.clientHeight) / lh)
+    let visibleTo = Math.min(
+      this.lines.length,
+      this.lines.lineAtHeight(top + this.div.clientHeight) + 1
     );
 
     // Initialize intact regions with current display range
@@ -1216,9 +2192,11 @@ export class AscendEditor {
     let different = from != this.showingFrom || to != this.showingTo;
     this.showingFrom = from;
     this.showingTo = to;
-    this.mover.style.top = from * this.lineHeight() + "px";
+    this.mover.style.top = this.lines.heightAtLine(from) + "px";
     if (different) {
       this.updateGutter();
+      this.updateSecondarySelections();
+      this.signalLater("viewportChange", this, from, to);
     }
   }
 
@@ -1276,7 +2254,7 @@ export class AscendEditor {
       // Generate HTML for th eline with proper selection highlighting
       html.push(
         "<div>",
-        this.lines[i].getHTML(ch1 as number, ch2 as number),
+        this.lines.get(i).getHTML(ch1 as number, ch2 as number),
         "</div>"
       );
     }
@@ -1368,7 +2346,7 @@ export class AscendEditor {
         }
 
         // Update node content with highlighted HTML
-        (node as HTMLElement).innerHTML = this.lines[j].getHTML(ch1!, ch2!);
+        (node as HTMLElement).innerHTML = this.lines.get(j).getHTML(ch1!, ch2!);
         node = node.nextSibling!;
       }
       off += extra;
@@ -1391,8 +2369,9 @@ export class AscendEditor {
     // - More efficient generation of line number HTML
     // - Better visual alignment of line numbers
     if (this.options.lineNumbers) {
-      let first = String(this.showingFrom + 1); // Get the first line number as string
-      let last = String(this.lines.length); // Get the total number of lines for width calculation
+      let base = this.options.firstLineNumber; // Number shown for the first line of the document
+      let first = String(this.showingFrom + base); // Get the first line number as string
+      let last = String(this.lines.length + base - 1); // Get the last line number for width calculation
 
       // Add left-padding to aling all line numbers
       // Uses non-breaking space (\u00a0) to preserve spacing
@@ -1405,7 +2384,7 @@ export class AscendEditor {
 
       // Generate remaining line numbers
       for (let i = this.showingFrom + 1; i < this.showingTo; i++) {
-        html.push("<div>" + (i + 1) + "</div>");
+        html.push("<div>" + (i + base) + "</div>");
       }
     }
     this.gutter.style.display = "none";
@@ -1440,13 +2419,21 @@ export class AscendEditor {
     let x = (e.e as MouseEvent).pageX - off.left;
     let y = (e.e as MouseEvent).pageY - off.top;
 
+    // Make the vertical position relative to the top of the document
+    y += this.lines.heightAtLine(this.showingFrom);
+
     // If click was on code element and above last line, return null
-    if (e.target() == this.code && y < this.lines.length * this.lineHeight()) {
+    if (e.target() == this.code && y < this.lines.height) {
       return null;
     }
 
     // Convert vertical position to line number
-    let line = this.showingFrom + Math.floor(y / this.lineHeight());
+    let line =
+      y < 0
+        ? -1
+        : y >= this.lines.height
+          ? this.lines.length
+          : this.lines.lineAtHeight(y);
     let clipLine = Math.min(Math.max(0, line), this.lines.length - 1);
 
     // Convert position to editor coordinates and ensure it's within bounds
@@ -1488,7 +2475,7 @@ export class AscendEditor {
     let head = start ? this.selection.from : this.selection.to;
     return {
       x: this.charX(head.line, head.ch),
-      y: head.line * this.lineHeight(),
+      y: this.lines.heightAtLine(head.line),
     };
   }
 
@@ -1502,7 +2489,10 @@ export class AscendEditor {
       ? this.selection.from
       : this.selection.to;
     let x = this.charX(head.line, head.ch) + "px";
-    let y = (head.line - this.showingFrom) * this.lineHeight() + "px";
+    let y =
+      this.lines.heightAtLine(head.line) -
+      this.lines.heightAtLine(this.showingFrom) +
+      "px";
 
     this.inputDiv.style.top = y;
     this.inputDiv.style.left = x;
@@ -1517,13 +2507,57 @@ export class AscendEditor {
     }
   }
 
+  /**
+   * Draws the secondary selection ranges over the visible lines: a cursor for each empty range, a highlight
+   * over the text of the others. The primary selection is drawn into the lines themselves.
+   */
+  updateSecondarySelections() {
+    const html: string[] = [];
+    const top = this.lines.heightAtLine(this.showingFrom);
+
+    for (const range of this.doc.secondary) {
+      const { from, to } = range;
+      if (to.line < this.showingFrom || from.line >= this.showingTo) continue;
+
+      if (positionEqual(from, to)) {
+        html.push(
+          `<span class="ascend-editor-cursor" style="top: ${
+            this.lines.heightAtLine(from.line) - top
+          }px; left: ${this.charX(from.line, from.ch)}px">&nbsp;</span>`
+        );
+        continue;
+      }
+
+      const last = Math.min(to.line, this.showingTo - 1);
+      for (let n = Math.max(from.line, this.showingFrom); n <= last; n++) {
+        const line = this.lines.get(n);
+        const left = n == from.line ? this.charX(n, from.ch) : 0;
+        // Ranges that go on past the end of a line cover the line break too
+        const right =
+          n == to.line
+            ? this.charX(n, to.ch)
+            : this.charX(n, line.text!.length) + this.charWidth();
+
+        html.push(
+          `<div class="ascend-editor-secondary-selected" style="top: ${
+            this.lines.heightAtLine(n) - top
+          }px; left: ${left}px; width: ${right - left}px; height: ${
+            line.height
+          }px"></div>`
+        );
+      }
+    }
+
+    this.selectionDiv.innerHTML = html.join("");
+  }
+
   /**
    * Calculates the horizontal pixel position for a given character position in a line.
    * @param line - The line number in the editor.
    * @param pos - The character position within the line.
    */
   charX(line: number, pos: number) {
-    let text = this.lines[line].text;
+    let text = this.lines.get(line).text;
 
     // If no tabs in text before pos, multiply by char width.
     if (text?.lastIndexOf("\t", pos) == -1) {
@@ -1552,7 +2586,7 @@ export class AscendEditor {
    * @param x - The horizontal pixel position.
    */
   charFromX(line: number, x: number) {
-    let text = this.lines[line].text;
+    let text = this.lines.get(line).text;
     let cw = this.charWidth();
 
     // If no tabs, divide x by char width
@@ -1618,7 +2652,7 @@ export class AscendEditor {
     // Ensure the character position is within the range of characters in the line.
     // If it's negative, set it to 0 (the start of the line)
     // It it's greater than or equal to the length of the line's text, set it to the end of the line.
-    ch = Math.max(0, Math.min(this.lines[pos.line].text!.length, pos.ch));
+    ch = Math.max(0, Math.min(this.lines.get(pos.line).text!.length, pos.ch));
 
     return ch == pos.ch ? pos : { line: pos.line, ch: ch };
   }
@@ -1717,40 +2751,14 @@ export class AscendEditor {
    * @param code - The new text to insert
    * @param from - Starting position of the range to replace
    * @param to - Ending position of the range
+   * @param origin - What caused the change
    */
-  replaceRange(code: string, from: Position, to?: Position) {
+  replaceRange(code: string, from: Position, to?: Position, origin?: string) {
     // Ensure positions are within valid bounds
     from = this.clipPosition(from);
     to = to ? this.clipPosition(to) : from;
     let end1: Position = { line: 0, ch: 0 };
 
-    /**
-     * Adjusts a position based on the text replacement.
-     * Handles three cases:
-     * 1. Position before replacement range - unchanged
-     * 2. Position within replacement range - moves to end of replacement
-     * 3. Position after replacement - adjusted for change in text length
-     * @param pos
-     */
-    function adjustPos(pos: Position): Position {
-      if (positionLess(pos, from)) return pos;
-
-      if (positionLess(pos, to!)) return end1;
-
-      // Position is on the same line as replacement end
-      if (pos.line == to?.line) {
-        return {
-          line: end1.line,
-          ch: pos.ch + end1.ch - to.ch,
-        };
-      }
-      // Position is after replacement - adjusts line number
-      return {
-        line: pos.line + end1.line - to!.line,
-        ch: pos.ch,
-      };
-    }
-
     this.replaceRange1(
       code,
       from,
@@ -1758,10 +2766,11 @@ export class AscendEditor {
       (end: Position): { from: Position; to: Position } => {
         end1 = end;
         return {
-          from: adjustPos(this.selection.from),
-          to: adjustPos(this.selection.to),
+          from: adjustPos(this.selection.from, from, to!, end),
+          to: adjustPos(this.selection.to, from, to!, end),
         };
-      }
+      },
+      origin
     );
 
     return end1;
@@ -1772,68 +2781,371 @@ export class AscendEditor {
    * Splits mutlti-line replacements and handles partial line replacement correctly.
    * @param code - The new text to insert
    * @param from - Starting position of replacement
-   * @param to - Position object indicating the end of the inserted text
+   * @param to - Ending position of the replaced range
+   * @param computeSelection - Computes the selection after the change from the end of the inserted text
+   * @param origin - What caused the change
+   * @returns False when a beforeChange handler canceled the change.
    */
   replaceRange1(
     code: string,
     from: Position,
     to: Position,
-    computeSelection: (end: Position) => { from: Position; to: Position }
+    computeSelection: (end: Position) => { from: Position; to: Position },
+    origin?: string
   ) {
-    let newLine = code.indexOf("\n"); // Find the first newline in the replacement text.
-    let nls = 0; // Counts number of newLines in the replacement text.
-
-    let i = code.indexOf("\n", newLine + 1);
-    // Count all newlines in the replacement text
-    while (i !== -1) {
-      nls++;
-      newLine = i;
-      i = code.indexOf("\n", i + 1);
-    }
-
-    // Calculate the length of the last line. If no newLines Found, use entire code length
-    // Otherwise, use remaining characters after last newline
-    let endCh = newLine == -1 ? code.length : code.length - newLine - 1;
-
-    // Calculate the difference in number of lines
-    // Original lines: (to.line - from.line + 1)
-    // NewLines: nls + 1
-    let diff = to.line - from.line + 1 - nls;
+    let text = splitLines(code);
 
     // Compute new selection range after replacement
-    // Passes an object with the end position after replacement
-    let newSel = computeSelection({
-      line: to.line + diff, // Adjust line number based on line difference
-      ch: endCh, // Use calculated end character position
-    });
+    // Passes the position where the inserted text ends
+    let newSel = computeSelection(changeEnd({ from, text }));
 
     // Perform the actual text replacement
     // Updates the editor content and selection
-    this.replaceLines(from, to, code, newSel.from, newSel.to);
+    return this.replaceLines(from, to, text, newSel.from, newSel.to, origin);
   }
 
   /**
-   * Replaces the current selection with new text and optionally collapses the selection.
+   * Replaces the current selection with new text and optionally collapses the selection. With several
+   * selection ranges the text replaces each of them.
    * @param code - The text to insert at the current selection
    * @param collapse - Optional direction to collapse the selection
+   * @param origin - What caused the change
    */
-  replaceSelection(code: string, collapse?: "start" | "end") {
-    // Replace the selected text
-    this.replaceRange1(
+  replaceSelection(code: string, collapse?: "start" | "end", origin?: string) {
+    if (this.doc.secondary.length) {
+      const texts = this.doc.secondary.map(() => code).concat([code]);
+      return this.replaceSelections(texts, collapse, origin);
+    }
+    this.replaceSelectionRange(this.selection, code, collapse, origin);
+  }
+
+  /**
+   * Replaces each selection range with its own text.
+   * @param texts - One text per range, in document order (see `listSelections`).
+   * @param collapse - Where to leave each range: around the new text by default, or at its "start" or "end".
+   * @param origin - What caused the change
+   */
+  replaceSelections(
+    texts: string[],
+    collapse?: "start" | "end",
+    origin?: string
+  ) {
+    const ranges: SelectionState[] = this.doc.secondary.concat([
+      this.selection as SelectionState,
+    ]);
+    ranges.sort((a, b) =>
+      positionLess(a.from, b.from) ? -1 : positionLess(b.from, a.from) ? 1 : 0
+    );
+
+    // Last range first, so the changes do not move the ranges still to be replaced
+    for (let i = Math.min(ranges.length, texts.length) - 1; i >= 0; i--) {
+      this.replaceSelectionRange(ranges[i], texts[i], collapse, origin);
+    }
+  }
+
+  /**
+   * Replaces the text of one selection range, primary or secondary, and moves that range as `collapse` says.
+   */
+  private replaceSelectionRange(
+    range: SelectionState | typeof this.selection,
+    code: string,
+    collapse?: "start" | "end",
+    origin?: string
+  ) {
+    const primary = range == this.selection;
+    const from = copyPosition(range.from);
+    const to = copyPosition(range.to);
+    let newRange = null as { from: Position; to: Position } | null;
+
+    const applied = this.replaceRange1(
       code,
-      this.selection.from,
-      this.selection.to,
+      from,
+      to,
       (end: Position) => {
         // Handle selection collapse based on the collapse parameter
         if (collapse == "end") {
-          return { from: end, to: end };
+          newRange = { from: end, to: end };
         } else if (collapse == "start") {
-          return { from: this.selection.from, to: this.selection.from };
+          newRange = { from: from, to: from };
         } else {
-          return { from: this.selection.from, to: end };
+          newRange = { from: from, to: end };
         }
+        if (primary) return newRange;
+
+        // A secondary range is being replaced, the primary selection just moves along with the text
+        return {
+          from: adjustPos(this.selection.from, from, to, end),
+          to: adjustPos(this.selection.to, from, to, end),
+        };
+      },
+      origin
+    );
+
+    if (applied && !primary && newRange) {
+      range.from = copyPosition(newRange.from);
+      range.to = copyPosition(newRange.to);
+      range.inverted = false;
+    }
+  }
+
+  /**
+   * Repeats an input change at each secondary range: the range is replaced with the text, after extending
+   * it by the number of characters the change removed before and after the primary selection.
+   * @param text - The inserted text, or one text for each secondary range in document order
+   * @param before - Characters removed before the primary selection, like a Backspace does
+   * @param after - Characters removed after the primary selection, like a Delete does
+   * @param origin - What caused the change
+   */
+  private replaceAtSecondary(
+    text: string | string[],
+    before: number,
+    after: number,
+    origin: string
+  ) {
+    const ranges = this.doc.secondary.slice();
+    // Last range first, so the changes do not move the ranges still to be replaced
+    for (let i = ranges.length - 1; i >= 0; i--) {
+      const range = ranges[i];
+      const from = this.doc.posFromIndex(
+        Math.max(0, this.doc.indexFromPos(range.from) - before)
+      );
+      const to = this.doc.posFromIndex(this.doc.indexFromPos(range.to) + after);
+      const end = this.replaceRange(
+        typeof text == "string" ? text : text[i],
+        from,
+        to,
+        origin
+      );
+
+      range.from = end;
+      range.to = copyPosition(end);
+      range.inverted = false;
+    }
+  }
+
+  /**
+   * Moves the secondary ranges along with a sideways move of the primary cursor. Ranges collapse to their
+   * start or end first, like the primary selection does.
+   * @param delta - Characters moved, negative to the left.
+   */
+  private moveSecondaryCursors(delta: number) {
+    this.blockSelection = null;
+    for (const range of this.doc.secondary) {
+      let pos = delta < 0 ? range.from : range.to;
+      if (positionEqual(range.from, range.to)) {
+        pos = this.clipPosition({ line: pos.line, ch: pos.ch + delta });
       }
+      range.from = pos;
+      range.to = copyPosition(pos);
+      range.inverted = false;
+    }
+    this.selectionChanged = true;
+  }
+
+  /**
+   * @returns All selection ranges, primary and secondary, in document order.
+   */
+  listSelections() {
+    return this.doc.listSelections();
+  }
+
+  /**
+   * @returns The text of each selection range, in document order.
+   */
+  getSelections(lineSep?: string) {
+    return this.doc.getSelections(lineSep);
+  }
+
+  /**
+   * Replaces all selection ranges.
+   * @param ranges - The new ranges. Overlapping ranges are merged.
+   * @param primary - Index of the range that becomes the primary selection, defaults to the last one.
+   */
+  setSelections(
+    ranges: { from: Position; to?: Position; inverted?: boolean }[],
+    primary: number = ranges.length - 1
+  ) {
+    if (!ranges.length) return;
+    primary = Math.max(0, Math.min(ranges.length - 1, primary));
+    this.blockSelection = null;
+
+    this.doc.secondary = ranges
+      .filter((_, i) => i != primary)
+      .map((range) => {
+        let from = this.clipPosition(range.from);
+        let to = this.clipPosition(range.to ?? range.from);
+        if (positionLess(to, from)) [from, to] = [to, from];
+        return { from, to, inverted: !!range.inverted };
+      });
+
+    const main = ranges[primary];
+    this.shiftSelecting = null;
+    this.setSelection(
+      this.clipPosition(main.from),
+      this.clipPosition(main.to ?? main.from)
+    );
+    this.normalizeSelections();
+  }
+
+  /**
+   * Adds a selection range, which becomes the primary selection. The previous primary selection is kept as a
+   * secondary range.
+   * @param from - Start of the range.
+   * @param to - End of the range, defaults to `from`, which adds a cursor.
+   */
+  addSelection(from: Position, to?: Position) {
+    this.doc.secondary.push(this.snapshotSelection());
+    this.shiftSelecting = null;
+    this.setSelection(this.clipPosition(from), this.clipPosition(to ?? from));
+    this.normalizeSelections();
+  }
+
+  /**
+   * Drops the secondary selection ranges, leaving only the primary selection.
+   */
+  clearSecondarySelections() {
+    this.blockSelection = null;
+    if (!this.doc.secondary.length) return;
+    this.doc.secondary = [];
+    this.selectionChanged = true;
+  }
+
+  /**
+   * Puts the text of every selection range on the clipboard, one range per line, when there is more than one
+   * range. The hidden textarea only holds the primary selection.
+   * @param e - The copy or cut event.
+   * @returns Whether the clipboard was filled, in which case the browser's own copy is prevented.
+   */
+  copySelections(e: AsEvent) {
+    const data = (e.e as ClipboardEvent).clipboardData;
+    if (!this.doc.secondary.length || !data) return false;
+
+    data.setData("text/plain", this.getSelections().join("\n"));
+    e.e.preventDefault();
+    return true;
+  }
+
+  /**
+   * Selects a block of text: the same columns on each line from the anchor's line to the head's line.
+   * Columns count a tab as reaching the next tab stop, so the block lines up on screen. Lines that end
+   * before the block are left out, unless the block has no width, which puts a cursor on every line.
+   * @param anchor - The corner the selection started at.
+   * @param head - The corner being moved, which holds the primary selection.
+   */
+  setBlockSelection(
+    anchor: { line: number; col: number },
+    head: { line: number; col: number }
+  ) {
+    const tabSize = this.options.tabSize;
+    const left = Math.min(anchor.col, head.col);
+    const right = Math.max(anchor.col, head.col);
+    const first = Math.max(0, Math.min(anchor.line, head.line));
+    const last = Math.min(
+      this.lines.length - 1,
+      Math.max(anchor.line, head.line)
     );
+    const ranges: { from: Position; to: Position }[] = [];
+    let primary = 0;
+
+    for (let n = first; n <= last; n++) {
+      const text = this.lines.get(n).text!;
+      const from = findColumn(text, left, tabSize);
+      if (left != right && countColumn(text, text.length, tabSize) <= left) {
+        continue;
+      }
+      if (n == head.line) primary = ranges.length;
+      ranges.push({
+        from: { line: n, ch: from },
+        to: { line: n, ch: findColumn(text, right, tabSize) },
+      });
+    }
+    if (!ranges.length) {
+      const pos = this.clipPosition({
+        line: anchor.line,
+        ch: findColumn(this.lines.get(anchor.line).text!, anchor.col, tabSize),
+      });
+      ranges.push({ from: pos, to: pos });
+    }
+
+    this.setSelections(ranges, primary);
+    this.blockSelection = { anchor, head };
+  }
+
+  /**
+   * Grows or shrinks the block selection by one line or column with an arrow key. Without a block selection
+   * the block starts from the current selection.
+   * @param key - "ArrowLeft", "ArrowRight", "ArrowUp" or "ArrowDown".
+   */
+  extendBlockSelection(key: string) {
+    let block = this.blockSelection;
+    if (!block) {
+      const sel = this.selection;
+      const anchor = sel.inverted ? sel.to : sel.from;
+      const head = sel.inverted ? sel.from : sel.to;
+      const column = (pos: Position) =>
+        countColumn(
+          this.lines.get(pos.line).text!,
+          pos.ch,
+          this.options.tabSize
+        );
+      block = {
+        anchor: { line: anchor.line, col: column(anchor) },
+        head: { line: head.line, col: column(head) },
+      };
+    }
+
+    const head = { ...block.head };
+    if (key == "ArrowLeft") head.col = Math.max(0, head.col - 1);
+    else if (key == "ArrowRight") head.col++;
+    else if (key == "ArrowUp") head.line = Math.max(0, head.line - 1);
+    else if (key == "ArrowDown") {
+      head.line = Math.min(this.lines.length - 1, head.line + 1);
+    }
+
+    this.setBlockSelection(block.anchor, head);
+  }
+
+  /**
+   * Finds the column under the mouse. Past the end of a line the column keeps counting in character
+   * widths, so a block selection can reach beyond short lines.
+   * @param e - The mouse event.
+   * @param pos - The position under the mouse, from `posFromMouse`.
+   */
+  mouseColumn(e: AsEvent, pos: Position) {
+    const text = this.lines.get(pos.line).text!;
+    const tabSize = this.options.tabSize;
+    const x = (e.e as MouseEvent).pageX - eltOffset(this.lineDiv).left;
+    const endX = this.charX(pos.line, text.length);
+
+    if (x > endX) {
+      return (
+        countColumn(text, text.length, tabSize) +
+        Math.round((x - endX) / this.charWidth())
+      );
+    }
+    return countColumn(text, pos.ch, tabSize);
+  }
+
+  /**
+   * Sorts the secondary ranges and merges the ones that overlap, with each other or with the primary selection.
+   */
+  normalizeSelections() {
+    if (!this.doc.secondary.length) return;
+
+    const before = this.snapshotSelection();
+    this.doc.mergeSelections();
+
+    // The primary selection grew: set it again, so the display is told about the change
+    const after = this.snapshotSelection();
+    if (
+      !positionEqual(before.from, after.from) ||
+      !positionEqual(before.to, after.to)
+    ) {
+      this.selection.from = before.from;
+      this.selection.to = before.to;
+      this.setSelection(after.from, after.to);
+    }
+    this.selectionChanged = true;
   }
 
   /**
@@ -1841,8 +3153,9 @@ export class AscendEditor {
    * After inserting the newline, it attempts to indent the newly created line.
    */
   insertNewLine() {
-    this.replaceSelection("\n", "end");
+    this.replaceSelection("\n", "end", "+input");
     this.indentLine(this.selection.from.line);
+    for (const range of this.doc.secondary) this.indentLine(range.from.line);
   }
 
   /**
@@ -1855,24 +3168,24 @@ export class AscendEditor {
 
     // If a selection is within a single line
     if (from.line == to.line) {
-      return this.lines[from.line].text!.slice(from.ch, to.ch);
+      return this.lines.get(from.line).text!.slice(from.ch, to.ch);
     }
 
     // For multi-line selections:
     const selectedText = [
       // First line (from selections start to end of line)
-      this.lines[from.line].text?.slice(from.ch),
+      this.lines.get(from.line).text?.slice(from.ch),
     ];
 
     // Middle lines
     for (let i = from.line + 1; i < to.line; i++) {
-      selectedText.push(this.lines[i].text);
+      selectedText.push(this.lines.get(i).text);
     }
 
     // Last line
-    selectedText.push(this.lines[to.line].text?.slice(0, to.ch));
+    selectedText.push(this.lines.get(to.line).text?.slice(0, to.ch));
 
-    return selectedText.join(lineSep || "\n");
+    return selectedText.join(lineSep || this.doc.lineSep);
   }
 
   /**
@@ -1897,14 +3210,9 @@ export class AscendEditor {
     if (!this.parser) {
       throw new Error(`Parser '${parserName}' not found`);
     }
+    this.doc.parser = parserName;
 
-    // Reset state for all lines
-    for (let i = 0; i < this.lines.length; i++) {
-      this.lines[i].stateAfter = null;
-    }
-
-    // Reset work queue to start highlighting from beginning.
-    this.work = [0];
+    this.rehighlight();
   }
 
   /**
@@ -1916,7 +3224,7 @@ export class AscendEditor {
     let state = this.getStateBefore(n);
     if (!state) return;
 
-    let line = this.lines[n];
+    let line = this.lines.get(n);
     // Determines the current amount of whitespace at the beginning of the line.
     let currSpace = line.indentation();
 
@@ -1947,7 +3255,8 @@ export class AscendEditor {
         { line: n, ch: 0 },
         space,
         from,
-        to
+        to,
+        "indent"
       );
     } else {
       // If the difference is negative, it means the line has too much indentation.
@@ -1958,7 +3267,8 @@ export class AscendEditor {
         { line: n, ch: -diff },
         "",
         from,
-        to
+        to,
+        "indent"
       );
     }
   }
@@ -1977,7 +3287,7 @@ export class AscendEditor {
 
     // Build the text content from the selected lines
     for (let i = from; i < to; i++) {
-      textarr.push(this.lines[i].text);
+      textarr.push(this.lines.get(i).text);
     }
     const text = (this.input.value = textarr.join("\n"));
 
@@ -1986,11 +3296,11 @@ export class AscendEditor {
     let endCh = sel.to.ch;
 
     for (let i = from; i < sel.from.line; i++) {
-      startCh += 1 + this.lines[i].text!.length;
+      startCh += 1 + this.lines.get(i).text!.length;
     }
 
     for (let i = from; i < sel.to.line; i++) {
-      endCh += 1 + this.lines[i].text!.length;
+      endCh += 1 + this.lines.get(i).text!.length;
     }
 
     // Update the editing object with the calculated values
@@ -2018,7 +3328,7 @@ export class AscendEditor {
     // Loop through the work queue
     while (this.work.length) {
       // Determine which line to process next
-      if (!this.lines[this.showingFrom].stateAfter) {
+      if (!this.lines.get(this.showingFrom).stateAfter) {
         // If first visible line needs highlighting prioritize it
         task = this.showingFrom;
       } else {
@@ -2027,12 +3337,13 @@ export class AscendEditor {
       }
 
       // Skip lines that have already been highlighted
-      if (task >= this.lines.length || this.lines[task].stateAfter) continue;
+      if (task >= this.lines.length || this.lines.get(task).stateAfter)
+        continue;
 
       let i = task;
 
       // Track minimum indentation for smarter state intialization
-      let minindent = this.lines[task].indentation();
+      let minindent = this.lines.get(task).indentation();
       let minline = task;
 
       // Find the most recent valid state for smarter state initialization
@@ -2040,7 +3351,7 @@ export class AscendEditor {
 
       // Enhanced state search with indentation tracking
       for (let e = Math.max(1, task - 50); task >= e; task--) {
-        const line = this.lines[task - 1];
+        const line = this.lines.get(task - 1);
         const state = line.stateAfter;
         const indent = line.indentation();
 
@@ -2065,7 +3376,7 @@ export class AscendEditor {
 
       // Process lines until we run out of time or hit end of document.
       for (i = task; i < this.lines.length; i++) {
-        const line = this.lines[i];
+        const line = this.lines.get(i);
 
         if (line.stateAfter) break;
 
@@ -2117,7 +3428,7 @@ export class AscendEditor {
       className: string
     ) => {
       // Get line object and create mark
-      let line = this.lines[lineNo];
+      let line = this.lines.get(lineNo);
       let mark = line.addMark(from, to!, className);
       mark.line = line;
 
@@ -2157,7 +3468,7 @@ export class AscendEditor {
       for (let i = 0; i < accum.length; i++) {
         let mark = accum[i];
         // Find the current position of the line containing this mark. Critical because line number may have changed due to edits.
-        let found = this.lines.indexOf(mark.line!);
+        let found = this.lines.lineNo(mark.line!);
 
         // Remove the mark from its containing line. This updates internal line state and styling.
         mark.line!.removeMark(mark);
@@ -2191,7 +3502,7 @@ export class AscendEditor {
     let head = this.selection.inverted
       ? this.selection.from
       : this.selection.to;
-    let line = this.lines[head.line];
+    let line = this.lines.get(head.line);
     let pos = head.ch - 1;
 
     // Find matching bracket character at or adjacent to cursor
@@ -2300,7 +3611,7 @@ export class AscendEditor {
 
     while (i != end) {
       // Get current line and check if it's the starting line
-      let line = this.lines[i];
+      let line = this.lines.get(i);
       let first = i == head.line;
 
       // SCAN CURRENT LINE
@@ -2382,7 +3693,7 @@ export class AscendEditor {
 
       // Check if a state has been saved for the current line in the backward search. If found, copy the state to avoid
       // mutation and break the loop.
-      if ((state = this.lines[search].stateAfter)) {
+      if ((state = this.lines.get(search).stateAfter)) {
         state = copyState(state);
         break;
       }
@@ -2390,22 +3701,23 @@ export class AscendEditor {
 
     // Starting from the line immediately after the found state, re-highlight lines and update their stateAfter properties.
     for (search++; search < n; search++) {
-      let line = this.lines[search];
+      let line = this.lines.get(search);
 
       line.highlight(this.parser, state);
       line.stateAfter = copyState(state);
     }
 
-    if (!this.lines[n].stateAfter) this.work.push(n);
+    if (!this.lines.get(n).stateAfter) this.work.push(n);
     return state;
   }
 
   selectAll() {
     this.shiftSelecting = null;
+    this.clearSecondarySelections();
     let endLine = this.lines.length - 1;
     this.setSelection(
       { line: 0, ch: 0 },
-      { line: endLine, ch: this.lines[endLine].text!.length }
+      { line: endLine, ch: this.lines.get(endLine).text!.length }
     );
   }
 
@@ -2414,6 +3726,11 @@ export class AscendEditor {
    * and end positions before and operation is performed. It also resets the linesShifted flag.
    */
   startOperation() {
+    this.operationId++;
+    this.pendingEvents = [];
+    this.textChanges = [];
+    this.prevSelection = this.snapshotSelection();
+    this.historyReplay = false;
     this.updateInput = null;
     this.changes = [];
     this.textChanged = false;
@@ -2426,6 +3743,14 @@ export class AscendEditor {
    * cursor blink. It also prepares the input if the selection spans multiple lines or if lines have been shifted.
    */
   endOperation() {
+    // Edits can make secondary ranges meet
+    if (
+      this.doc.secondary.length &&
+      (this.textChanged || this.selectionChanged)
+    ) {
+      this.normalizeSelections();
+    }
+
     if (this.selectionChanged) {
       // If the selection has changed, update the display to reflect the new selection.
       this.scrollCursorIntoView();
@@ -2438,6 +3763,10 @@ export class AscendEditor {
       this.restartBlink();
     }
 
+    if (this.changes.length || this.selectionChanged) {
+      this.updateSecondarySelections();
+    }
+
     // Check if the selection spans multiple lines or if lines have been shifted.
     if (
       this.updateInput === true ||
@@ -2446,11 +3775,28 @@ export class AscendEditor {
       setTimeout(() => this.prepareInputArea(), 20);
     }
 
-    if (this.selectionChanged && this.options.onCursorActivity) {
-      this.options.onCursorActivity(AscendEditor);
+    // Record cursor-only movements so they can be undone like edits.
+    if (
+      this.selectionChanged &&
+      !this.textChanged &&
+      !this.historyReplay &&
+      this.history
+    ) {
+      this.history.addSelection(this.prevSelection, this.snapshotSelection());
+    }
+
+    if (this.selectionChanged) {
+      if (this.options.onCursorActivity) this.options.onCursorActivity(this);
+      this.signalLater("cursorActivity", this);
     }
-    if (this.textChanged && this.options.onChange) {
-      this.options.onChange(AscendEditor);
+
+    // Report the changes made during the operation. Each change carries its range in the document as it was
+    // when the change was made, the inserted and removed lines, and its origin.
+    if (this.textChanged && this.textChanges.length) {
+      const changes = this.textChanges.slice();
+      if (this.options.onChange) this.options.onChange(this, changes);
+      if (this.options.onChanges) this.options.onChanges(this, changes);
+      this.signalLater("change", this, changes);
     }
 
     // Enhanced bracket matching logic to clean up previous highlights before applying new ones
@@ -2469,6 +3815,42 @@ export class AscendEditor {
         20
       );
     }
+
+    // Dispatch the events collected during the operation, now that the editor is in a consistent state
+    const events = this.pendingEvents || [];
+    this.pendingEvents = null;
+    for (const [type, args] of events) this.emitter.signal(type, ...args);
+  }
+
+  /**
+   * Queues an event to be dispatched once the current operation has finished, or dispatches it right away
+   * when no operation is running.
+   * @param type - The event type.
+   * @param args - Arguments passed to the handlers.
+   */
+  signalLater(type: string, ...args: any[]) {
+    if (!this.emitter.hasHandler(type)) return;
+    if (this.pendingEvents) this.pendingEvents.push([type, args]);
+    else this.emitter.signal(type, ...args);
+  }
+
+  /**
+   * Registers a handler for an editor event: change, beforeChange, cursorActivity, focus, blur, scroll,
+   * viewportChange, gutterClick, keydown, paste or drop. Handlers receive the editor as their first argument.
+   * beforeChange, keydown, paste and drop handlers run immediately, so they can cancel what the editor is about
+   * to do; the others run after the operation that caused them has completed.
+   * @param type - The event type.
+   * @param handler - The function to call.
+   */
+  on(type: string, handler: Function) {
+    this.emitter.on(type, handler);
+  }
+
+  /**
+   * Removes a handler registered with `on`.
+   */
+  off(type: string, handler: Function) {
+    this.emitter.off(type, handler);
   }
 
   /**
@@ -2484,19 +3866,19 @@ export class AscendEditor {
     // Return a new function that wraps the original function.
     return function () {
       // Start operation only for the outermost call
-      if (nestedOperation === 0) {
+      if (self.nestedOperation === 0) {
         self.startOperation();
       }
-      nestedOperation++;
+      self.nestedOperation++;
       let result;
       try {
         // Prepare for the operation.
         // Apply the original function "f" to the current context "self" with the provided arguments.
         result = f.apply(self, arguments);
       } finally {
-        nestedOperation--;
+        self.nestedOperation--;
         // End operation only when exiting the outermost call
-        if (nestedOperation === 0) {
+        if (self.nestedOperation === 0) {
           // Finalize the operation.
           self.endOperation();
         }
@@ -2516,11 +3898,15 @@ export class AscendEditor {
     return {
       // Basic text operations
       getValue: () => this.getValue(),
-      setValue: () => this.operation((text: string) => this.setValue(text)),
+      setValue: this.operation((text: string) => this.setValue(text)),
       getSelection: (lineSep?: string) => this.getSelection(lineSep),
       replaceSelection: this.operation(
-        (code: string, collapse?: "start" | "end") =>
-          this.replaceSelection(code, collapse)
+        (code: string, collapse?: "start" | "end", origin?: string) =>
+          this.replaceSelection(code, collapse, origin)
+      ),
+      replaceRange: this.operation(
+        (code: string, from: Position, to?: Position, origin?: string) =>
+          this.replaceRange(code, from, to, origin)
       ),
 
       // Cursor and selection operations
@@ -2528,11 +3914,30 @@ export class AscendEditor {
         const pos = start ? this.selection.from : this.selection.to;
         return { line: pos.line, ch: pos.ch };
       },
-      setCursor: this.operation((line: number, ch: number) =>
-        this.setCursor(line, ch)
+      setCursor: this.operation((line: number, ch: number) => {
+        this.clearSecondarySelections();
+        this.setCursor(line, ch);
+      }),
+      setSelection: this.operation((from: Position, to: Position) => {
+        this.clearSecondarySelections();
+        this.setSelection(from, to);
+      }),
+
+      // Multiple selections
+      listSelections: () => this.listSelections(),
+      getSelections: (lineSep?: string) => this.getSelections(lineSep),
+      setSelections: this.operation(
+        (
+          ranges: { from: Position; to?: Position; inverted?: boolean }[],
+          primary?: number
+        ) => this.setSelections(ranges, primary)
       ),
-      setSelection: this.operation((from: Position, to: Position) =>
-        this.setSelection(from, to)
+      addSelection: this.operation((from: Position, to?: Position) =>
+        this.addSelection(from, to)
+      ),
+      replaceSelections: this.operation(
+        (texts: string[], collapse?: "start" | "end", origin?: string) =>
+          this.replaceSelections(texts, collapse, origin)
       ),
 
       // Search operations
@@ -2546,31 +3951,74 @@ export class AscendEditor {
 
       // Line operations
       lineCount: () => this.lines.length,
-      getLine: (line: number) => this.lines[line]?.text,
-      setLine: this.operation((line: number, text: string) => {
+      getLine: (line: number) => this.doc.getLine(line),
+      setLine: this.operation((line: number, text: string, origin?: string) => {
         if (line >= 0 && line < this.lines.length) {
           this.replaceRange(
             text,
             { line, ch: 0 },
-            { line, ch: this.lines[line].text?.length! }
+            { line, ch: this.lines.get(line).text?.length! },
+            origin
           );
         }
       }),
-      removeLine: this.operation((line: number) => {
+      removeLine: this.operation((line: number, origin?: string) => {
         if (line >= 0 && line < this.lines.length) {
-          this.replaceRange("", { line, ch: 0 }, { line: line + 1, ch: 0 });
+          this.replaceRange(
+            "",
+            { line, ch: 0 },
+            { line: line + 1, ch: 0 },
+            origin
+          );
         }
       }),
 
+      // Line endings
+      lineSeparator: () => this.doc.lineSeparator(),
+      setLineSeparator: (sep: string) => this.doc.setLineSeparator(sep),
+
+      // Offsets in the text, for tools that report character indexes
+      posFromIndex: (index: number) => this.doc.posFromIndex(index),
+      indexFromPos: (pos: Position) => this.doc.indexFromPos(pos),
+
       // Line number operations
-      setLineNumbers: this.setLineNumbers,
+      setLineNumbers: this.operation((on: boolean) => this.setLineNumbers(on)),
+
+      // Options
+      setOption: this.operation((name: string, value: any) =>
+        this.setOption(name, value)
+      ),
+      getOption: (name: string) => this.getOption(name),
 
       // History operations
       undo: this.operation(() => this.undo()),
       redo: this.operation(() => this.redo()),
+      undoSelection: this.operation(() => this.undoSelection()),
+      getHistory: () => this.getHistory(),
+      setHistory: (data: SerializedHistory | string) => this.setHistory(data),
+      clearHistory: () => this.clearHistory(),
+      markClean: () => this.markClean(),
+      isClean: (generation?: number) => this.isClean(generation),
+      changeGeneration: () => this.changeGeneration(),
+      getHistoryBranches: () => this.history?.branches() || [],
+      // Keyboard macros
+      startMacroRecording: () => this.startMacroRecording(),
+      stopMacroRecording: this.operation(() => this.stopMacroRecording()),
+      isRecordingMacro: () => !!this.macroRecording,
+      replayMacro: (times?: number, macro?: MacroStep[]) =>
+        this.replayMacro(times, macro),
+      getMacro: () => this.getMacro(),
+      setMacro: (data: MacroStep[] | string) => this.setMacro(data),
+      jumpToHistory: this.operation((id: number) => this.jumpToHistory(id)),
+      undoToTime: this.operation((time: number) => this.undoToTime(time)),
+      historyEarlier: this.operation((ms: number) => this.historyEarlier(ms)),
+      historyLater: this.operation((ms: number) => this.historyLater(ms)),
+      redoSelection: this.operation(() => this.redoSelection()),
 
       // Parser operations
-      setParser: (name: string) => this.setParser(name),
+      setParser: this.operation((name: string) =>
+        this.setOption("parser", name)
+      ),
 
       // Focus operations
       focus: () => {
@@ -2578,15 +4026,17 @@ export class AscendEditor {
         this.onFocus();
       },
 
-      setReadOnly: (on: boolean) => {
-        this.options.readOnly = on;
-      },
+      setReadOnly: (on: boolean) => this.setOption("readOnly", on),
+
+      // Commands
+      execCommand: this.operation((name: string) => this.execCommand(name)),
 
       // Utility operations
       cursorCoords: (start: boolean) => this.cursorCoords(start),
 
       // Operation wrapper
       operation: (f: Function) => this.operation(f)(),
+      withUndoGroup: <T>(f: () => T) => this.withUndoGroup(f),
 
       refresh: () => this.updateDisplay([{ from: 0, to: this.lines.length }]),
 
@@ -2596,6 +4046,14 @@ export class AscendEditor {
 
       matchBrackets: this.operation(this.matchBrackets),
 
+      // Documents
+      getDoc: () => this.getDoc(),
+      swapDoc: this.operation((doc: Doc) => this.swapDoc(doc)),
+
+      // Events
+      on: (type: string, handler: Function) => this.on(type, handler),
+      off: (type: string, handler: Function) => this.off(type, handler),
+
       // Direct access to editor instance (if needed)
       getEditor: () => self,
     };
@@ -2630,6 +4088,75 @@ export class AscendEditor {
   }
 }
 
+// Built-in options, with handlers for the ones that need more than a new value in `options`
+AscendEditor.defineOption("value", "", (editor, value) =>
+  editor.setValue(value)
+);
+AscendEditor.defineOption("parser", null, (editor, value) =>
+  editor.setParser(value)
+);
+// Parser states are created with the indent unit, so highlighting has to start over
+AscendEditor.defineOption("indentUnit", 2, (editor) => editor.rehighlight());
+// Width of a tab stop, used to line up block selections
+AscendEditor.defineOption("tabSize", 4, (editor, value) => {
+  editor.code.style.tabSize = String(value);
+  editor.updateDisplay([{ from: 0, to: editor.lines.length }]);
+});
+AscendEditor.defineOption("lineNumbers", false, (editor, value) => {
+  editor.gutter.style.display = value ? "" : "none";
+  if (value) editor.updateGutter();
+  else (editor.lineDiv.parentNode as HTMLElement).style.marginLeft = "";
+});
+AscendEditor.defineOption("firstLineNumber", 1, (editor) =>
+  editor.updateGutter()
+);
+AscendEditor.defineOption("onChange", null);
+AscendEditor.defineOption("onChanges", null);
+AscendEditor.defineOption("onBeforeChange", null);
+AscendEditor.defineOption("onCursorActivity", null);
+AscendEditor.defineOption("workTime", 200, (editor) =>
+  editor.startWorker(editor.options.workDelay)
+);
+AscendEditor.defineOption("workDelay", 300, (editor, value) =>
+  editor.startWorker(value)
+);
+AscendEditor.defineOption("undoDepth", 40, (editor, value) =>
+  editor.history?.prune(value)
+);
+AscendEditor.defineOption("historyEventDelay", 400, (editor, value) => {
+  if (editor.history) editor.history.eventDelay = value;
+});
+// Null detects the line endings from the text given to setValue
+AscendEditor.defineOption("lineSeparator", null, (editor, value) => {
+  if (value != null) editor.doc.setLineSeparator(value);
+});
+AscendEditor.defineOption("readOnly", false);
+// Name of a keymap in `AscendEditor.keyMap`, or a keymap object
+AscendEditor.defineOption("keyMap", "default", (editor, value, old) => {
+  const prev = getKeyMap(old);
+  const next = getKeyMap(value);
+  if (prev.detach) prev.detach(editor, next);
+  if (next.attach) next.attach(editor, prev);
+});
+// Keymap consulted before `keyMap`, for adding or rebinding single keys
+AscendEditor.defineOption("extraKeys", null);
+// Milliseconds to wait for the next key of a key sequence, 0 waits forever
+AscendEditor.defineOption("keySequenceTimeout", 2000);
+AscendEditor.defineOption("tabIndex", null, (editor, value) => {
+  if (value == null) editor.input.removeAttribute("tabindex");
+  else editor.input.tabIndex = value;
+});
+AscendEditor.defineOption("autoMatchBrackets", false, (editor, value) => {
+  // Clear the current highlight when bracket matching is switched off
+  if (!value && editor.bracketHighlighted) {
+    editor.bracketHighlighted();
+    editor.bracketHighlighted = null;
+  }
+});
+
+AscendEditor.keyMap.vim = vimKeyMap;
+AscendEditor.keyMap.emacs = emacsKeyMap;
+
 const currentPath = window.location.pathname;
 
 if (currentPath.includes("css")) {
@@ -145,5 +145,7 @@ export const cssParser = (function () {
     startState: startState,
     token: tokenCss,
     indent: indentCss,
+    // Characters other than letters, digits and "_" that are part of a word
+    wordChars: "-",
   };
 })();
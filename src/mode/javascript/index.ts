@@ -754,5 +754,8 @@ export const javascriptParser = (function () {
 
     // The indentation function. This function is responsible for calculating the indentation level for a given line of code.
     indent: indentJS,
+
+    // Characters other than letters, digits and "_" that are part of a word
+    wordChars: "$",
   };
 })();
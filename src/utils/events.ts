@@ -54,3 +54,43 @@ export class AsEvent {
     return (this.e as MouseEvent).button;
   }
 }
+
+/**
+ * Keeps lists of handlers per event type and calls them when an event is signaled.
+ */
+export class Emitter {
+  private handlers: { [type: string]: Function[] } = {};
+
+  /**
+   * Registers a handler for an event type. A type can have any number of handlers.
+   */
+  on(type: string, handler: Function) {
+    (this.handlers[type] || (this.handlers[type] = [])).push(handler);
+  }
+
+  /**
+   * Removes a handler registered with `on`.
+   */
+  off(type: string, handler: Function) {
+    const list = this.handlers[type];
+    if (!list) return;
+
+    const index = list.indexOf(handler);
+    if (index > -1) list.splice(index, 1);
+  }
+
+  hasHandler(type: string) {
+    return !!(this.handlers[type] && this.handlers[type].length);
+  }
+
+  /**
+   * Calls every handler of an event type with the given arguments.
+   */
+  signal(type: string, ...args: any[]) {
+    const list = this.handlers[type];
+    if (!list) return;
+
+    // Copy the list, so handlers can remove themselves while it is being iterated
+    for (const handler of list.slice()) handler(...args);
+  }
+}
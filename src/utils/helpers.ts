@@ -1,17 +1,9 @@
-import type { Line, Offset, Position } from "../interfaces";
-
-export const keyCodeMap: Record<string, number> = {
-  End: 35,
-  Home: 36,
-  ArrowLeft: 37,
-  ArrowUp: 38,
-  ArrowRight: 39,
-  ArrowDown: 40,
-};
+import type { Change, Line, Offset, Position } from "../interfaces";
 
+// Names of the keys that move the cursor in the input textarea. Keys seen moving the cursor are added later.
 export const movementKeys: { [key: string]: boolean } = {};
-for (let i = 35; i <= 40; i++) {
-  movementKeys[i] = movementKeys[`c${i}`] = true;
+for (const key of ["Left", "Right", "Up", "Down", "Home", "End"]) {
+  movementKeys[key] = movementKeys[`Ctrl-${key}`] = true;
 }
 
 export const matching: { [key: string]: string } = {
@@ -55,6 +47,112 @@ export function copyPosition(pos: Position): Position {
   return { ...pos };
 }
 
+/**
+ * Computes the position at which the text inserted by a change ends.
+ * @param change - The change whose inserted text is measured, only `from` and `text` are used.
+ */
+export function changeEnd(change: Pick<Change, "from" | "text">): Position {
+  const { from, text } = change;
+  if (text.length == 1) {
+    return { line: from.line, ch: from.ch + text[0].length };
+  }
+  return {
+    line: from.line + text.length - 1,
+    ch: text[text.length - 1].length,
+  };
+}
+
+/**
+ * Maps a position through a change that replaced the range `from`-`to` with text ending at `end`.
+ * Handles three cases:
+ * 1. Position before replacement range - unchanged
+ * 2. Position within replacement range - moves to end of replacement
+ * 3. Position after replacement - adjusted for change in text length
+ */
+export function adjustPos(
+  pos: Position,
+  from: Position,
+  to: Position,
+  end: Position
+): Position {
+  if (positionLess(pos, from)) return pos;
+
+  if (positionLess(pos, to)) return end;
+
+  // Position is on the same line as replacement end
+  if (pos.line == to.line) {
+    return { line: end.line, ch: pos.ch + end.ch - to.ch };
+  }
+  // Position is after replacement - adjusts line number
+  return { line: pos.line + end.line - to.line, ch: pos.ch };
+}
+
+/**
+ * Counts the visual column of a character offset in a line. A tab reaches to the next tab stop.
+ * @param text - The line.
+ * @param end - Character offset in the line.
+ * @param tabSize - Width of a tab stop in columns.
+ */
+export function countColumn(
+  text: string,
+  end: number,
+  tabSize: number
+): number {
+  let col = 0;
+  for (let i = 0; i < end && i < text.length; i++) {
+    col = text.charAt(i) == "\t" ? col + tabSize - (col % tabSize) : col + 1;
+  }
+  return col;
+}
+
+/**
+ * Finds the character offset at a visual column, the inverse of `countColumn`. A column inside a tab gives
+ * the offset after the tab, a column past the end of the line gives the end of the line.
+ * @param text - The line.
+ * @param goal - The column.
+ * @param tabSize - Width of a tab stop in columns.
+ */
+export function findColumn(
+  text: string,
+  goal: number,
+  tabSize: number
+): number {
+  let col = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (col >= goal) return i;
+    col = text.charAt(i) == "\t" ? col + tabSize - (col % tabSize) : col + 1;
+  }
+  return text.length;
+}
+
+/**
+ * Splits text into lines on any kind of line break: "\r\n", "\r" or "\n".
+ */
+export function splitLines(text: string): string[] {
+  return text.split(/\r\n?|\n/);
+}
+
+/**
+ * @returns The first line break in the text, or null when it has none.
+ */
+export function detectLineSeparator(text: string): string | null {
+  const match = /\r\n?|\n/.exec(text);
+  return match ? match[0] : null;
+}
+
+/**
+ * Computes a 32-bit FNV-1a hash of a string. Used to check that stored data belongs to a document.
+ * @param str - The string to hash.
+ */
+export function hashString(str: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
 export function htmlEscape(str: string): string {
   return str.replace(/[<&]/g, (str) => (str == "&" ? "&amp;" : "&lt;"));
 }
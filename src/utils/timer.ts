@@ -9,4 +9,9 @@ export class Timer {
     clearTimeout(this.id as number);
     this.id = setTimeout(f, ms);
   }
+
+  clear() {
+    clearTimeout(this.id as number);
+    this.id = null;
+  }
 }